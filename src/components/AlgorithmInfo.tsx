@@ -4,14 +4,17 @@
  */
 
 import { motion } from "framer-motion";
-import { Clock, Cpu, Zap, Info } from "lucide-react";
+import { Clock, Cpu, Zap, Info, BarChart3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getSortAlgorithm, SORT_ALGORITHM_IDS } from "@/utils/sortAlgorithms";
 
 interface AlgorithmInfoProps {
   className?: string;
+  onVisualize?: () => void;
 }
 
-const algorithms = [
+const searchAlgorithms = [
   {
     name: "Linear Search",
     timeComplexity: "O(n)",
@@ -26,29 +29,43 @@ const algorithms = [
     color: "text-primary",
     bg: "bg-primary/10",
   },
-  {
-    name: "Bubble Sort",
-    timeComplexity: "O(n²)",
-    description: "Menukar elemen berdekatan yang tidak terurut",
-    color: "text-warning",
-    bg: "bg-warning/10",
-  },
-  {
-    name: "Selection Sort",
-    timeComplexity: "O(n²)",
-    description: "Mencari minimum dan menempatkan di posisi yang benar",
-    color: "text-error",
-    bg: "bg-error/10",
-  },
 ];
 
-export function AlgorithmInfo({ className }: AlgorithmInfoProps) {
+// Warna kartu sesuai kelas kompleksitas rata-rata
+function complexityTone(complexity: string): { color: string; bg: string } {
+  if (complexity.includes("²")) return { color: "text-warning", bg: "bg-warning/10" };
+  if (complexity.includes("log")) return { color: "text-primary", bg: "bg-primary/10" };
+  return { color: "text-success", bg: "bg-success/10" };
+}
+
+// Algoritma pengurutan diambil dari registry agar selalu sama dengan pilihan di tabel
+const algorithms = [
+  ...searchAlgorithms,
+  ...SORT_ALGORITHM_IDS.map((id) => {
+    const { name, description, timeComplexity, fields, stable } = getSortAlgorithm(id);
+    const notes = [stable ? "stabil" : "tidak stabil", ...(fields ?? []).map((f) => `hanya ${f}`)];
+    return {
+      name,
+      timeComplexity: timeComplexity.average,
+      description: `${description} (${notes.join(", ")})`,
+      ...complexityTone(timeComplexity.average),
+    };
+  }),
+];
+
+export function AlgorithmInfo({ className, onVisualize }: AlgorithmInfoProps) {
   return (
     <Card className={className}>
       <CardHeader className="pb-4">
         <CardTitle className="flex items-center gap-2 text-lg">
           <Cpu className="w-5 h-5 text-primary" />
           Algoritma & Time Complexity
+          {onVisualize && (
+            <Button variant="outline" size="sm" onClick={onVisualize} className="ml-auto gap-2">
+              <BarChart3 className="w-4 h-4" />
+              Visualisasi
+            </Button>
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -58,7 +75,7 @@ export function AlgorithmInfo({ className }: AlgorithmInfoProps) {
               key={algo.name}
               initial={{ opacity: 0, y: 10 }}
               animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: index * 0.1 }}
+              transition={{ delay: index * 0.05 }}
               className={`p-3 rounded-lg ${algo.bg} border border-border/50`}
             >
               <div className="flex items-center justify-between mb-1">
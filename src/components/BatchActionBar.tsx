@@ -0,0 +1,165 @@
+/**
+ * Batch Action Bar Component
+ * Aksi untuk mahasiswa yang dipilih di tabel: hapus, export, ubah jurusan, naik semester
+ */
+
+import { useState } from "react";
+import { motion } from "framer-motion";
+import {
+  Trash2,
+  Download,
+  FileJson,
+  FileSpreadsheet,
+  Sheet,
+  GraduationCap,
+  ArrowUpCircle,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { IStudent, JURUSAN_LIST } from "@/models/Student";
+import { exportToJSON, exportToCSV } from "@/utils/fileIO";
+import { exportToXLSX } from "@/utils/excelIO";
+import { toast } from "@/hooks/use-toast";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface BatchActionBarProps {
+  selected: IStudent[];
+  totalResults: number;
+  // Semua baris di halaman ini terpilih, tetapi masih ada hasil di halaman lain
+  canSelectAllResults: boolean;
+  onSelectAllResults: () => void;
+  onClear: () => void;
+  canDelete: boolean;
+  canUpdate: boolean;
+  onDelete?: (ids: string[]) => void;
+  onChangeJurusan?: (ids: string[], jurusan: string) => boolean;
+  onPromoteSemester?: (students: IStudent[]) => void;
+}
+
+export function BatchActionBar({
+  selected,
+  totalResults,
+  canSelectAllResults,
+  onSelectAllResults,
+  onClear,
+  canDelete,
+  canUpdate,
+  onDelete,
+  onChangeJurusan,
+  onPromoteSemester,
+}: BatchActionBarProps) {
+  const [jurusan, setJurusan] = useState("");
+  const ids = selected.map((s) => s.id);
+
+  const handleExport = async (format: "json" | "csv" | "xlsx") => {
+    try {
+      if (format === "json") exportToJSON(selected);
+      else if (format === "csv") exportToCSV(selected);
+      else await exportToXLSX(selected);
+      toast({
+        title: "Berhasil",
+        description: `${selected.length} mahasiswa diekspor`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Gagal mengekspor data terpilih",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleChangeJurusan = () => {
+    if (!jurusan || !onChangeJurusan) return;
+    if (onChangeJurusan(ids, jurusan)) setJurusan("");
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: "auto" }}
+      exit={{ opacity: 0, height: 0 }}
+      className="flex flex-wrap items-center gap-3 p-3 rounded-lg bg-primary/10 border border-primary/30"
+    >
+      <div className="flex items-center gap-2 text-sm">
+        <span className="font-medium">{selected.length} dipilih</span>
+        {canSelectAllResults ? (
+          <button onClick={onSelectAllResults} className="text-primary hover:underline">
+            Pilih semua {totalResults} hasil
+          </button>
+        ) : (
+          selected.length === totalResults &&
+          totalResults > 1 && <span className="text-muted-foreground">(semua hasil)</span>
+        )}
+        <Button variant="ghost" size="icon" onClick={onClear} className="h-7 w-7">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 ml-auto">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-2">
+              <Download className="w-4 h-4" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            <DropdownMenuItem onClick={() => handleExport("json")}>
+              <FileJson className="w-4 h-4 mr-2" />
+              Export sebagai JSON
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport("csv")}>
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Export sebagai CSV
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport("xlsx")}>
+              <Sheet className="w-4 h-4 mr-2" />
+              Export sebagai Excel
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {canUpdate && onChangeJurusan && (
+          <div className="flex items-center gap-1">
+            <select
+              value={jurusan}
+              onChange={(e) => setJurusan(e.target.value)}
+              className="h-9 rounded-lg border border-border bg-secondary/50 px-3 text-sm"
+            >
+              <option value="">Ubah jurusan...</option>
+              {JURUSAN_LIST.map((j) => (
+                <option key={j} value={j}>
+                  {j}
+                </option>
+              ))}
+            </select>
+            <Button variant="outline" size="sm" onClick={handleChangeJurusan} disabled={!jurusan} className="gap-2">
+              <GraduationCap className="w-4 h-4" />
+              Terapkan
+            </Button>
+          </div>
+        )}
+
+        {onPromoteSemester && (
+          <Button variant="outline" size="sm" onClick={() => onPromoteSemester(selected)} className="gap-2">
+            <ArrowUpCircle className="w-4 h-4" />
+            Naik Semester
+          </Button>
+        )}
+
+        {canDelete && onDelete && (
+          <Button variant="destructive" size="sm" onClick={() => onDelete(ids)} className="gap-2">
+            <Trash2 className="w-4 h-4" />
+            Hapus
+          </Button>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,285 @@
+/**
+ * CSV Import Dialog Component
+ * Pemetaan kolom CSV/TSV (atau sheet Excel) ke field mahasiswa dan preview validasi
+ * per baris sebelum import
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, FileSpreadsheet, Upload, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { IStudent } from "@/models/Student";
+import { Delimiter, detectDelimiter, parseDelimited } from "@/utils/csvParser";
+import {
+  CSV_HEADERS,
+  ColumnMapping,
+  IMPORT_FIELDS,
+  autoMapColumns,
+  buildImportPreview,
+  isHeaderRow,
+  previewToStudents,
+} from "@/utils/csvImport";
+
+interface CSVImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  fileName: string;
+  text: string;
+  // Baris hasil baca file Excel; bila ada, text dan pilihan pemisah diabaikan
+  sheetRows?: string[][];
+  onImport: (data: IStudent[]) => void;
+}
+
+const selectClassName =
+  "h-10 rounded-lg border border-border bg-secondary/50 px-3 text-sm";
+
+const DELIMITER_LABELS: Record<Delimiter, string> = {
+  ",": "Koma (,)",
+  "\t": "Tab",
+  ";": "Titik koma (;)",
+};
+
+// Batas baris yang dirender di grid preview
+const PREVIEW_LIMIT = 200;
+
+export function CSVImportDialog({ isOpen, onClose, fileName, text, sheetRows, onImport }: CSVImportDialogProps) {
+  const [delimiter, setDelimiter] = useState<Delimiter>(",");
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => autoMapColumns([], true));
+  const [onlyErrors, setOnlyErrors] = useState(false);
+
+  const rows = useMemo(
+    () => sheetRows ?? parseDelimited(text, delimiter),
+    [sheetRows, text, delimiter]
+  );
+  const columnCount = useMemo(() => Math.max(0, ...rows.map((r) => r.length)), [rows]);
+
+  // Deteksi delimiter saat file baru dibuka
+  useEffect(() => {
+    setDelimiter(detectDelimiter(text));
+    setOnlyErrors(false);
+  }, [text, sheetRows]);
+
+  // Deteksi header dan pemetaan otomatis setiap struktur file berubah
+  useEffect(() => {
+    const firstRow = rows[0] ?? [];
+    const header = isHeaderRow(firstRow);
+    setHasHeader(header);
+    setMapping(autoMapColumns(firstRow, header));
+  }, [rows]);
+
+  const columnNames = useMemo(
+    () =>
+      Array.from({ length: columnCount }, (_, i) =>
+        hasHeader && rows[0]?.[i] ? rows[0][i] : `Kolom ${i + 1}`
+      ),
+    [rows, columnCount, hasHeader]
+  );
+
+  const preview = useMemo(
+    () => buildImportPreview(rows, mapping, hasHeader),
+    [rows, mapping, hasHeader]
+  );
+  const invalidCount = preview.filter((r) => Object.keys(r.errors).length > 0).length;
+  const validCount = preview.length - invalidCount;
+  const visibleRows = (onlyErrors
+    ? preview.filter((r) => Object.keys(r.errors).length > 0)
+    : preview
+  ).slice(0, PREVIEW_LIMIT);
+
+  const handleHeaderToggle = (checked: boolean) => {
+    setHasHeader(checked);
+    setMapping(autoMapColumns(rows[0] ?? [], checked));
+  };
+
+  const handleImport = () => {
+    onImport(previewToStudents(preview));
+    onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm"
+          onClick={(e) => e.target === e.currentTarget && onClose()}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ duration: 0.2 }}
+            className="w-full max-w-6xl glass-card p-6 max-h-[90vh] overflow-y-auto"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-primary/20 flex items-center justify-center">
+                  <FileSpreadsheet className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-semibold">Import {sheetRows ? "Excel" : "CSV"}</h2>
+                  <p className="text-sm text-muted-foreground">
+                    {fileName} · {preview.length} baris data
+                  </p>
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" onClick={onClose}>
+                <X className="w-5 h-5" />
+              </Button>
+            </div>
+
+            {/* Format file */}
+            <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+              {!sheetRows && (
+                <label className="flex items-center gap-2">
+                  Pemisah
+                  <select
+                    value={delimiter}
+                    onChange={(e) => setDelimiter(e.target.value as Delimiter)}
+                    className={selectClassName}
+                  >
+                    {(Object.keys(DELIMITER_LABELS) as Delimiter[]).map((d) => (
+                      <option key={d} value={d}>
+                        {DELIMITER_LABELS[d]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={hasHeader}
+                  onChange={(e) => handleHeaderToggle(e.target.checked)}
+                />
+                Baris pertama adalah header
+              </label>
+            </div>
+
+            {/* Pemetaan kolom */}
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3 mb-6">
+              {IMPORT_FIELDS.map((field) => (
+                <label key={field} className="flex flex-col gap-1 text-sm">
+                  <span className="text-muted-foreground">{CSV_HEADERS[field]}</span>
+                  <select
+                    value={mapping[field] ?? ""}
+                    onChange={(e) =>
+                      setMapping((prev) => ({
+                        ...prev,
+                        [field]: e.target.value === "" ? null : Number(e.target.value),
+                      }))
+                    }
+                    className={selectClassName}
+                  >
+                    <option value="">Tidak dipetakan</option>
+                    {columnNames.map((name, index) => (
+                      <option key={index} value={index}>
+                        {name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            {/* Ringkasan */}
+            <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+              <span className="px-2 py-1 rounded-full bg-success/10 text-success">
+                {validCount} valid
+              </span>
+              <span className="px-2 py-1 rounded-full bg-destructive/10 text-destructive">
+                {invalidCount} bermasalah
+              </span>
+              <label className="flex items-center gap-2 ml-auto text-sm">
+                <input
+                  type="checkbox"
+                  checked={onlyErrors}
+                  onChange={(e) => setOnlyErrors(e.target.checked)}
+                />
+                Hanya baris bermasalah
+              </label>
+            </div>
+
+            {/* Grid preview */}
+            <div className="rounded-xl border border-border overflow-auto max-h-[45vh] mb-6">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0">
+                  <tr className="bg-secondary border-b border-border text-left text-muted-foreground">
+                    <th className="px-3 py-2 font-medium">Baris</th>
+                    {IMPORT_FIELDS.map((field) => (
+                      <th key={field} className="px-3 py-2 font-medium">
+                        {CSV_HEADERS[field]}
+                      </th>
+                    ))}
+                    <th className="px-3 py-2 font-medium">Kesalahan</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleRows.length === 0 ? (
+                    <tr>
+                      <td colSpan={IMPORT_FIELDS.length + 2} className="px-3 py-8 text-center text-muted-foreground">
+                        Tidak ada baris untuk ditampilkan
+                      </td>
+                    </tr>
+                  ) : (
+                    visibleRows.map(({ rowNumber, data, errors }) => (
+                      <tr
+                        key={rowNumber}
+                        className={`border-b border-border/50 ${
+                          Object.keys(errors).length > 0 ? "bg-destructive/5" : ""
+                        }`}
+                      >
+                        <td className="px-3 py-2 text-muted-foreground">{rowNumber}</td>
+                        {IMPORT_FIELDS.map((field) => (
+                          <td
+                            key={field}
+                            className={`px-3 py-2 ${errors[field] ? "text-destructive" : ""}`}
+                            title={errors[field]}
+                          >
+                            <span className="flex items-center gap-1">
+                              {errors[field] && <AlertCircle className="w-3 h-3 shrink-0" />}
+                              {Number.isNaN(data[field]) ? "-" : String(data[field] || "-")}
+                            </span>
+                          </td>
+                        ))}
+                        <td className="px-3 py-2 text-xs text-destructive">
+                          {Object.values(errors).join("; ")}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {preview.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground mb-4">
+                Menampilkan {PREVIEW_LIMIT} baris pertama
+              </p>
+            )}
+
+            {/* Actions */}
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={onClose} className="flex-1">
+                Batal
+              </Button>
+              <Button
+                variant="gradient"
+                onClick={handleImport}
+                disabled={validCount === 0}
+                className="flex-1 gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                Lanjutkan dengan {validCount} baris valid
+              </Button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * Course Catalog Component
+ * Modal daftar mata kuliah (kode, nama, SKS, semester)
+ */
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, BookOpen, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ICourse } from "@/models/Course";
+
+interface CourseCatalogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  courses: ICourse[];
+  canManage: boolean;
+  onAdd: (data: Omit<ICourse, "id">) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+}
+
+const EMPTY_FORM = { kode: "", nama: "", sks: "", semester: "" };
+
+export function CourseCatalog({
+  isOpen,
+  onClose,
+  courses,
+  canManage,
+  onAdd,
+  onDelete,
+}: CourseCatalogProps) {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const success = await onAdd({
+        kode: formData.kode,
+        nama: formData.nama,
+        sks: parseInt(formData.sks) || 0,
+        semester: parseInt(formData.semester) || 0,
+      });
+      if (success) setFormData(EMPTY_FORM);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm"
+          onClick={(e) => e.target === e.currentTarget && onClose()}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ duration: 0.2 }}
+            className="w-full max-w-2xl glass-card p-6 max-h-[90vh] overflow-y-auto"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-primary/20 flex items-center justify-center">
+                  <BookOpen className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-semibold">Katalog Mata Kuliah</h2>
+                  <p className="text-sm text-muted-foreground">
+                    {courses.length} mata kuliah terdaftar
+                  </p>
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" onClick={onClose}>
+                <X className="w-5 h-5" />
+              </Button>
+            </div>
+
+            {/* Form tambah mata kuliah */}
+            {canManage && (
+              <form onSubmit={handleSubmit} className="grid grid-cols-2 sm:grid-cols-6 gap-3 mb-6">
+                <Input
+                  name="kode"
+                  value={formData.kode}
+                  onChange={handleChange}
+                  placeholder="Kode"
+                  className="sm:col-span-1"
+                />
+                <Input
+                  name="nama"
+                  value={formData.nama}
+                  onChange={handleChange}
+                  placeholder="Nama mata kuliah"
+                  className="col-span-2 sm:col-span-2"
+                />
+                <Input
+                  name="sks"
+                  type="number"
+                  min="1"
+                  max="6"
+                  value={formData.sks}
+                  onChange={handleChange}
+                  placeholder="SKS"
+                />
+                <Input
+                  name="semester"
+                  type="number"
+                  min="1"
+                  max="14"
+                  value={formData.semester}
+                  onChange={handleChange}
+                  placeholder="Semester"
+                />
+                <Button type="submit" variant="gradient" disabled={isSaving} className="gap-2">
+                  <Plus className="w-4 h-4" />
+                  Tambah
+                </Button>
+              </form>
+            )}
+
+            {/* Daftar mata kuliah */}
+            <div className="rounded-xl border border-border overflow-hidden">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-secondary/50 border-b border-border text-left text-sm text-muted-foreground">
+                    <th className="px-4 py-3 font-medium">Kode</th>
+                    <th className="px-4 py-3 font-medium">Nama</th>
+                    <th className="px-4 py-3 font-medium text-center">SKS</th>
+                    <th className="px-4 py-3 font-medium text-center">Semester</th>
+                    {canManage && <th className="px-4 py-3" />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {courses.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-8 text-center text-muted-foreground">
+                        Belum ada mata kuliah
+                      </td>
+                    </tr>
+                  ) : (
+                    courses.map((course) => (
+                      <tr key={course.id} className="border-b border-border/50">
+                        <td className="px-4 py-2">
+                          <code className="px-2 py-1 rounded bg-primary/10 text-primary font-mono text-xs">
+                            {course.kode}
+                          </code>
+                        </td>
+                        <td className="px-4 py-2 text-sm">{course.nama}</td>
+                        <td className="px-4 py-2 text-sm text-center">{course.sks}</td>
+                        <td className="px-4 py-2 text-sm text-center">{course.semester}</td>
+                        {canManage && (
+                          <td className="px-4 py-2 text-right">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => onDelete(course.id)}
+                              className="h-8 w-8 text-destructive"
+                              title="Hapus mata kuliah"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </td>
+                        )}
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
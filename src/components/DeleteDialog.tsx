@@ -12,9 +12,11 @@ interface DeleteDialogProps {
   onClose: () => void;
   onConfirm: () => void;
   studentName: string;
+  // Jumlah data untuk hapus massal; nama tidak ditampilkan jika lebih dari satu
+  count?: number;
 }
 
-export function DeleteDialog({ isOpen, onClose, onConfirm, studentName }: DeleteDialogProps) {
+export function DeleteDialog({ isOpen, onClose, onConfirm, studentName, count = 1 }: DeleteDialogProps) {
   return (
     <AnimatePresence>
       {isOpen && (
@@ -41,11 +43,22 @@ export function DeleteDialog({ isOpen, onClose, onConfirm, studentName }: Delete
 
             {/* Content */}
             <div className="text-center mb-6">
-              <h2 className="text-xl font-semibold mb-2">Hapus Mahasiswa?</h2>
+              <h2 className="text-xl font-semibold mb-2">
+                {count > 1 ? `Hapus ${count} Mahasiswa?` : "Hapus Mahasiswa?"}
+              </h2>
               <p className="text-muted-foreground">
-                Apakah Anda yakin ingin menghapus data mahasiswa{" "}
-                <span className="font-medium text-foreground">{studentName}</span>? 
-                Tindakan ini tidak dapat dibatalkan.
+                {count > 1 ? (
+                  <>
+                    Apakah Anda yakin ingin menghapus{" "}
+                    <span className="font-medium text-foreground">{count} data mahasiswa</span> terpilih?{" "}
+                  </>
+                ) : (
+                  <>
+                    Apakah Anda yakin ingin menghapus data mahasiswa{" "}
+                    <span className="font-medium text-foreground">{studentName}</span>?{" "}
+                  </>
+                )}
+                Data akan dipindahkan ke Recycle Bin dan masih bisa dipulihkan.
               </p>
             </div>
 
@@ -0,0 +1,235 @@
+/**
+ * Grade Dialog Component
+ * Menampilkan dan mengelola nilai mata kuliah seorang mahasiswa
+ * IPS per semester dan IPK dihitung dari nilai (bobot huruf × SKS)
+ */
+
+import { useState, useMemo, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, ClipboardList, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { IStudent } from "@/models/Student";
+import { GRADE_POINTS, ICourse, IEnrollment, LETTER_GRADES, LetterGrade } from "@/models/Course";
+import { summarizeTranscript } from "@/utils/gradeCalculator";
+import { EnrollmentInput } from "@/hooks/useAcademicRecords";
+
+interface GradeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  student: IStudent | null;
+  courses: ICourse[];
+  enrollments: IEnrollment[];
+  canEdit: boolean;
+  onSave: (student: IStudent, input: EnrollmentInput) => Promise<boolean>;
+  onRemove: (student: IStudent, id: string) => Promise<boolean>;
+}
+
+const selectClassName =
+  "h-10 rounded-lg border border-border bg-secondary/50 px-3 text-sm";
+
+export function GradeDialog({
+  isOpen,
+  onClose,
+  student,
+  courses,
+  enrollments,
+  canEdit,
+  onSave,
+  onRemove,
+}: GradeDialogProps) {
+  const [courseId, setCourseId] = useState("");
+  const [semester, setSemester] = useState("");
+  const [grade, setGrade] = useState<LetterGrade | "">("");
+
+  useEffect(() => {
+    if (isOpen) {
+      setCourseId("");
+      setSemester(student ? student.semester.toString() : "");
+      setGrade("");
+    }
+  }, [isOpen, student]);
+
+  const summary = useMemo(
+    () => (student ? summarizeTranscript(student.id, enrollments, courses) : null),
+    [student, enrollments, courses]
+  );
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!student || !courseId) return;
+    const success = await onSave(student, {
+      courseId,
+      semester: parseInt(semester) || 0,
+      grade: grade || null,
+    });
+    if (success) {
+      setCourseId("");
+      setGrade("");
+    }
+  };
+
+  const handleGradeChange = (enrollment: IEnrollment, value: string) => {
+    if (!student) return;
+    onSave(student, {
+      courseId: enrollment.courseId,
+      semester: enrollment.semester,
+      grade: (value || null) as LetterGrade | null,
+    });
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && student && summary && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm"
+          onClick={(e) => e.target === e.currentTarget && onClose()}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ duration: 0.2 }}
+            className="w-full max-w-3xl glass-card p-6 max-h-[90vh] overflow-y-auto"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-primary/20 flex items-center justify-center">
+                  <ClipboardList className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-semibold">Nilai {student.nama}</h2>
+                  <p className="text-sm text-muted-foreground">
+                    {student.nim} · {summary.totalSKS} SKS · IPK{" "}
+                    <span className="font-mono font-medium text-foreground">
+                      {summary.hasGrades ? summary.ipk.toFixed(2) : student.ipk.toFixed(2)}
+                    </span>
+                  </p>
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" onClick={onClose}>
+                <X className="w-5 h-5" />
+              </Button>
+            </div>
+
+            {/* Form tambah nilai */}
+            {canEdit && (
+              <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-3 mb-6">
+                <select
+                  value={courseId}
+                  onChange={(e) => setCourseId(e.target.value)}
+                  className={`${selectClassName} flex-1`}
+                >
+                  <option value="">Pilih mata kuliah</option>
+                  {courses.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.kode} - {c.nama} ({c.sks} SKS)
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  type="number"
+                  min="1"
+                  max="14"
+                  value={semester}
+                  onChange={(e) => setSemester(e.target.value)}
+                  placeholder="Semester"
+                  className="sm:w-28"
+                />
+                <select
+                  value={grade}
+                  onChange={(e) => setGrade(e.target.value as LetterGrade | "")}
+                  className={selectClassName}
+                >
+                  <option value="">Belum ada nilai</option>
+                  {LETTER_GRADES.map((g) => (
+                    <option key={g} value={g}>
+                      {g} ({GRADE_POINTS[g].toFixed(1)})
+                    </option>
+                  ))}
+                </select>
+                <Button type="submit" variant="gradient" disabled={!courseId} className="gap-2">
+                  <Plus className="w-4 h-4" />
+                  Simpan
+                </Button>
+              </form>
+            )}
+
+            {/* Nilai per semester */}
+            {summary.semesters.length === 0 ? (
+              <p className="py-8 text-center text-muted-foreground">
+                Belum ada mata kuliah yang diambil
+              </p>
+            ) : (
+              <div className="space-y-4">
+                {summary.semesters.map((sem) => (
+                  <div key={sem.semester} className="rounded-xl border border-border overflow-hidden">
+                    <div className="flex items-center justify-between px-4 py-2 bg-secondary/50 border-b border-border text-sm">
+                      <span className="font-medium">Semester {sem.semester}</span>
+                      <span className="text-muted-foreground">
+                        {sem.totalSKS} SKS · IPS{" "}
+                        <span className="font-mono font-medium text-foreground">
+                          {sem.ips.toFixed(2)}
+                        </span>
+                      </span>
+                    </div>
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {sem.entries.map(({ enrollment, course }) => (
+                          <tr key={enrollment.id} className="border-b border-border/50 last:border-0">
+                            <td className="px-4 py-2 w-28">
+                              <code className="px-2 py-1 rounded bg-primary/10 text-primary font-mono text-xs">
+                                {course.kode}
+                              </code>
+                            </td>
+                            <td className="px-4 py-2">{course.nama}</td>
+                            <td className="px-4 py-2 text-center w-20">{course.sks} SKS</td>
+                            <td className="px-4 py-2 text-right w-40">
+                              {canEdit ? (
+                                <div className="flex items-center justify-end gap-1">
+                                  <select
+                                    value={enrollment.grade ?? ""}
+                                    onChange={(e) => handleGradeChange(enrollment, e.target.value)}
+                                    className="h-8 rounded-lg border border-border bg-secondary/50 px-2 text-sm"
+                                  >
+                                    <option value="">-</option>
+                                    {LETTER_GRADES.map((g) => (
+                                      <option key={g} value={g}>
+                                        {g}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => onRemove(student, enrollment.id)}
+                                    className="h-8 w-8 text-destructive"
+                                    title="Hapus"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </Button>
+                                </div>
+                              ) : (
+                                <span className="font-mono font-medium">
+                                  {enrollment.grade ?? "-"}
+                                </span>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
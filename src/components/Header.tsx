@@ -8,13 +8,15 @@ import { GraduationCap, Users, BookOpen, TrendingUp, LogOut } from "lucide-react
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
+import { AppRole, ROLE_LABELS } from "@/models/Profile";
 
 interface HeaderProps {
   totalStudents: number;
   avgIPK: number;
+  role?: AppRole | null;
 }
 
-export function Header({ totalStudents, avgIPK }: HeaderProps) {
+export function Header({ totalStudents, avgIPK, role }: HeaderProps) {
   const { signOut, user } = useAuth();
 
   return (
@@ -26,6 +28,11 @@ export function Header({ totalStudents, avgIPK }: HeaderProps) {
       
       {/* Theme toggle and logout */}
       <div className="absolute top-4 right-4 flex items-center gap-2 z-10">
+        {role && (
+          <span className="px-2 py-1 rounded-full bg-primary/10 text-primary text-xs font-medium">
+            {ROLE_LABELS[role]}
+          </span>
+        )}
         <ThemeToggle />
         {user && (
           <Button variant="ghost" size="icon" onClick={signOut} title="Logout">
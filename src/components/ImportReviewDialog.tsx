@@ -0,0 +1,197 @@
+/**
+ * Import Review Dialog Component
+ * Pilih strategi import dan tinjau laporan konflik sebelum data diterapkan
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, GitMerge, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { IStudent } from "@/models/Student";
+import { IMPORT_STRATEGIES, ImportStrategy, mergeImport } from "@/utils/importMerge";
+import { diffStudentFields, STUDENT_FIELD_LABELS } from "@/utils/studentDiff";
+import { QuarantinedRecord } from "@/utils/studentSchema";
+
+interface ImportReviewDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  source: string;
+  records: Partial<IStudent>[];
+  quarantined: QuarantinedRecord[];
+  existing: IStudent[];
+  onConfirm: (records: Partial<IStudent>[], strategy: ImportStrategy) => void;
+}
+
+interface ReportSectionProps {
+  title: string;
+  className: string;
+  items: { key: string; label: string; detail?: string }[];
+}
+
+function ReportSection({ title, className, items }: ReportSectionProps) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <p className={`text-sm font-medium mb-1 ${className}`}>
+        {title} ({items.length})
+      </p>
+      <div className="space-y-1 text-sm">
+        {items.map((item) => (
+          <p key={item.key}>
+            {item.label}
+            {item.detail && <span className="text-xs text-muted-foreground"> — {item.detail}</span>}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const describe = (s: Partial<IStudent>) => `${s.nim || "(tanpa NIM)"} - ${s.nama || "(tanpa nama)"}`;
+
+export function ImportReviewDialog({
+  isOpen,
+  onClose,
+  source,
+  records,
+  quarantined,
+  existing,
+  onConfirm,
+}: ImportReviewDialogProps) {
+  const [strategy, setStrategy] = useState<ImportStrategy>("upsert");
+
+  useEffect(() => {
+    if (isOpen) setStrategy("upsert");
+  }, [isOpen]);
+
+  const { report } = useMemo(
+    () => mergeImport(existing, records, strategy),
+    [existing, records, strategy]
+  );
+
+  const handleConfirm = () => {
+    onConfirm(records, strategy);
+    onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm"
+          onClick={(e) => e.target === e.currentTarget && onClose()}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ duration: 0.2 }}
+            className="w-full max-w-3xl glass-card p-6 max-h-[90vh] overflow-y-auto"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-primary/20 flex items-center justify-center">
+                  <GitMerge className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-semibold">Tinjau Import</h2>
+                  <p className="text-sm text-muted-foreground">
+                    {source} · {records.length + quarantined.length} record
+                  </p>
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" onClick={onClose}>
+                <X className="w-5 h-5" />
+              </Button>
+            </div>
+
+            {/* Strategi */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-6">
+              {IMPORT_STRATEGIES.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setStrategy(option.value)}
+                  className={`text-left p-3 rounded-lg border transition-colors ${
+                    strategy === option.value
+                      ? "border-primary bg-primary/10"
+                      : "border-border hover:bg-secondary/30"
+                  }`}
+                >
+                  <p className="text-sm font-medium">{option.label}</p>
+                  <p className="text-xs text-muted-foreground">{option.description}</p>
+                </button>
+              ))}
+            </div>
+
+            {/* Laporan konflik */}
+            <div className="space-y-4 max-h-[40vh] overflow-y-auto mb-6">
+              <ReportSection
+                title="Ditambahkan"
+                className="text-success"
+                items={report.added.map((s) => ({ key: s.id, label: describe(s) }))}
+              />
+              <ReportSection
+                title="Diperbarui"
+                className="text-warning"
+                items={report.updated.map(({ before, after }) => ({
+                  key: before.id,
+                  label: describe(before),
+                  detail: diffStudentFields(before, after)
+                    .map((c) => `${STUDENT_FIELD_LABELS[c.field]}: ${c.before ?? "-"} → ${c.after ?? "-"}`)
+                    .join("; "),
+                }))}
+              />
+              <ReportSection
+                title="Dilewati"
+                className="text-muted-foreground"
+                items={report.skipped.map(({ student, reason }) => ({
+                  key: student.id,
+                  label: describe(student),
+                  detail: reason,
+                }))}
+              />
+              <ReportSection
+                title="Ditolak"
+                className="text-destructive"
+                items={report.rejected.map(({ student, reason }, index) => ({
+                  key: `rejected-${index}`,
+                  label: describe(student),
+                  detail: reason,
+                }))}
+              />
+              <ReportSection
+                title="Dikarantina (tidak sesuai skema)"
+                className="text-destructive"
+                items={quarantined.map(({ index, record, errors }) => ({
+                  key: `quarantined-${index}`,
+                  label: `#${index + 1} ${describe(record as Partial<IStudent>)}`,
+                  detail: errors.join("; "),
+                }))}
+              />
+              <ReportSection
+                title="Dihapus"
+                className="text-destructive"
+                items={report.removed.map((s) => ({ key: s.id, label: describe(s) }))}
+              />
+            </div>
+
+            {/* Actions */}
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={onClose} className="flex-1">
+                Batal
+              </Button>
+              <Button variant="gradient" onClick={handleConfirm} className="flex-1 gap-2">
+                <Check className="w-4 h-4" />
+                Terapkan
+              </Button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * Presence Indicator Component
+ * Menampilkan pengguna lain yang sedang membuka daftar mahasiswa yang sama
+ */
+
+import { Eye } from "lucide-react";
+import { PresenceViewer } from "@/utils/studentRepository";
+
+interface PresenceIndicatorProps {
+  viewers: PresenceViewer[];
+}
+
+const MAX_AVATARS = 4;
+
+const initials = (viewer: PresenceViewer) => (viewer.email ?? "?").slice(0, 2).toUpperCase();
+
+export function PresenceIndicator({ viewers }: PresenceIndicatorProps) {
+  if (viewers.length === 0) return null;
+
+  const names = viewers.map((v) => v.email ?? "Pengguna lain").join(", ");
+
+  return (
+    <div className="flex items-center gap-3 mb-4 text-sm text-muted-foreground" title={names}>
+      <div className="flex -space-x-2">
+        {viewers.slice(0, MAX_AVATARS).map((viewer) => (
+          <div
+            key={viewer.userId}
+            className="w-7 h-7 rounded-full bg-primary/20 border-2 border-card flex items-center justify-center text-[10px] font-semibold text-primary"
+          >
+            {initials(viewer)}
+          </div>
+        ))}
+        {viewers.length > MAX_AVATARS && (
+          <div className="w-7 h-7 rounded-full bg-secondary border-2 border-card flex items-center justify-center text-[10px] font-semibold">
+            +{viewers.length - MAX_AVATARS}
+          </div>
+        )}
+      </div>
+      <span className="flex items-center gap-1">
+        <Eye className="w-4 h-4" />
+        {viewers.length === 1
+          ? `${viewers[0].email ?? "Pengguna lain"} juga sedang melihat`
+          : `${viewers.length} pengguna lain juga sedang melihat`}
+      </span>
+    </div>
+  );
+}
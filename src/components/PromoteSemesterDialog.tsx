@@ -0,0 +1,155 @@
+/**
+ * Promote Semester Dialog Component
+ * Ringkasan kenaikan semester massal sebelum perubahan diterapkan
+ */
+
+import { useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, ArrowUpCircle, Check, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { IStudent } from "@/models/Student";
+import { MAX_SEMESTER } from "@/utils/validation";
+import { groupPromotionSteps, planPromotion, PromotionPlan } from "@/utils/semesterPromotion";
+
+interface PromoteSemesterDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Asal daftar mahasiswa, misalnya "terpilih" atau "hasil filter"
+  source: string;
+  students: IStudent[];
+  canUpdate: (student: IStudent) => boolean;
+  onConfirm: (plan: PromotionPlan) => void;
+}
+
+const describe = (s: IStudent) => `${s.nim} - ${s.nama}`;
+
+export function PromoteSemesterDialog({
+  isOpen,
+  onClose,
+  source,
+  students,
+  canUpdate,
+  onConfirm,
+}: PromoteSemesterDialogProps) {
+  const plan = useMemo(() => planPromotion(students, canUpdate), [students, canUpdate]);
+  const steps = useMemo(() => groupPromotionSteps(plan), [plan]);
+
+  const handleConfirm = () => {
+    onConfirm(plan);
+    onClose();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm"
+          onClick={(e) => e.target === e.currentTarget && onClose()}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ duration: 0.2 }}
+            className="w-full max-w-2xl glass-card p-6 max-h-[90vh] overflow-y-auto"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-primary/20 flex items-center justify-center">
+                  <ArrowUpCircle className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-semibold">Naik Semester</h2>
+                  <p className="text-sm text-muted-foreground">
+                    {students.length} mahasiswa {source}
+                  </p>
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" onClick={onClose}>
+                <X className="w-5 h-5" />
+              </Button>
+            </div>
+
+            {/* Ringkasan */}
+            <div className="grid grid-cols-3 gap-3 mb-6">
+              <div className="p-3 rounded-lg bg-success/10 border border-success/30">
+                <p className="text-2xl font-semibold text-success">{plan.promoted.length}</p>
+                <p className="text-xs text-muted-foreground">Naik semester</p>
+              </div>
+              <div className="p-3 rounded-lg bg-warning/10 border border-warning/30">
+                <p className="text-2xl font-semibold text-warning">{plan.overdue.length}</p>
+                <p className="text-xs text-muted-foreground">Overdue</p>
+              </div>
+              <div className="p-3 rounded-lg bg-secondary/50 border border-border">
+                <p className="text-2xl font-semibold">{plan.skipped.length}</p>
+                <p className="text-xs text-muted-foreground">Dilewati (tanpa akses)</p>
+              </div>
+            </div>
+
+            <div className="space-y-4 max-h-[40vh] overflow-y-auto mb-6">
+              {/* Perpindahan per semester */}
+              {steps.length > 0 && (
+                <div className="space-y-1 text-sm">
+                  {steps.map(({ from, to, count }) => (
+                    <div key={from} className="flex justify-between px-3 py-2 rounded-lg bg-secondary/30">
+                      <span>
+                        Semester {from} → {to}
+                      </span>
+                      <span className="text-muted-foreground">{count} mahasiswa</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Mahasiswa yang melewati batas */}
+              {plan.overdue.length > 0 && (
+                <div>
+                  <p className="flex items-center gap-2 text-sm font-medium text-warning mb-1">
+                    <AlertTriangle className="w-4 h-4" />
+                    Overdue: sudah semester {MAX_SEMESTER}, tidak dinaikkan
+                  </p>
+                  <div className="space-y-1 text-sm">
+                    {plan.overdue.map((s) => (
+                      <p key={s.id}>{describe(s)}</p>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {plan.skipped.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground mb-1">Dilewati</p>
+                  <div className="space-y-1 text-sm text-muted-foreground">
+                    {plan.skipped.map((s) => (
+                      <p key={s.id}>{describe(s)}</p>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Actions */}
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={onClose} className="flex-1">
+                Batal
+              </Button>
+              <Button
+                variant="gradient"
+                onClick={handleConfirm}
+                disabled={plan.promoted.length === 0}
+                className="flex-1 gap-2"
+              >
+                <Check className="w-4 h-4" />
+                Naikkan {plan.promoted.length} Mahasiswa
+              </Button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,220 @@
+/**
+ * Recycle Bin Component
+ * Daftar mahasiswa yang dihapus, dengan pemulihan, hapus permanen, dan masa simpan
+ */
+
+import { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Trash2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { IDeletedStudent, RETENTION_OPTIONS } from "@/models/DeletedStudent";
+
+interface RecycleBinProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: IDeletedStudent[];
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+  canRestore: boolean;
+  canPurge: boolean;
+  onRefresh: () => void;
+  onRestore: (ids: string[]) => boolean;
+  onPurge: (ids: string[]) => Promise<boolean>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString("id-ID", { dateStyle: "medium", timeStyle: "short" });
+
+// Sisa hari sebelum dihapus permanen otomatis
+const remainingDays = (deletedAt: string, retentionDays: number) =>
+  Math.max(0, Math.ceil((new Date(deletedAt).getTime() + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+
+export function RecycleBin({
+  isOpen,
+  onClose,
+  entries,
+  retentionDays,
+  onRetentionChange,
+  canRestore,
+  canPurge,
+  onRefresh,
+  onRestore,
+  onPurge,
+}: RecycleBinProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [confirmPurge, setConfirmPurge] = useState(false);
+  const [isPurging, setIsPurging] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelected(new Set());
+    setConfirmPurge(false);
+    onRefresh();
+  }, [isOpen, onRefresh]);
+
+  // Buang pilihan yang sudah tidak ada di daftar
+  useEffect(() => {
+    setSelected((prev) => {
+      const ids = new Set(entries.map((e) => e.student.id));
+      const next = new Set([...prev].filter((id) => ids.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [entries]);
+
+  const toggle = (id: string) => {
+    setConfirmPurge(false);
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = entries.length > 0 && selected.size === entries.length;
+  const toggleAll = () => {
+    setConfirmPurge(false);
+    setSelected(allSelected ? new Set() : new Set(entries.map((e) => e.student.id)));
+  };
+
+  const handleRestore = () => {
+    if (onRestore([...selected])) setSelected(new Set());
+  };
+
+  const handlePurge = async () => {
+    if (!confirmPurge) {
+      setConfirmPurge(true);
+      return;
+    }
+    setIsPurging(true);
+    try {
+      await onPurge([...selected]);
+    } finally {
+      setIsPurging(false);
+      setConfirmPurge(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm"
+          onClick={(e) => e.target === e.currentTarget && onClose()}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ duration: 0.2 }}
+            className="w-full max-w-3xl glass-card p-6 max-h-[90vh] overflow-y-auto"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-destructive/10 flex items-center justify-center">
+                  <Trash2 className="w-5 h-5 text-destructive" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-semibold">Recycle Bin</h2>
+                  <p className="text-sm text-muted-foreground">{entries.length} mahasiswa dihapus</p>
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" onClick={onClose}>
+                <X className="w-5 h-5" />
+              </Button>
+            </div>
+
+            {/* Masa simpan */}
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                Hapus permanen otomatis setelah
+                <select
+                  value={retentionDays}
+                  onChange={(e) => onRetentionChange(Number(e.target.value))}
+                  disabled={!canPurge}
+                  className="h-10 rounded-lg border border-border bg-secondary/50 px-3 text-sm"
+                >
+                  {RETENTION_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {entries.length > 0 && (
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={allSelected} onChange={toggleAll} />
+                  Pilih semua
+                </label>
+              )}
+            </div>
+
+            {/* Daftar */}
+            <div className="space-y-2 max-h-[45vh] overflow-y-auto mb-6">
+              {entries.length === 0 ? (
+                <p className="text-center text-muted-foreground py-12">Recycle Bin kosong</p>
+              ) : (
+                entries.map(({ student, deletedAt, deletedBy }) => (
+                  <label
+                    key={student.id}
+                    className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                      selected.has(student.id) ? "border-primary bg-primary/10" : "border-border hover:bg-secondary/30"
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(student.id)}
+                      onChange={() => toggle(student.id)}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {student.nim} - {student.nama}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Dihapus {formatTimestamp(deletedAt)}
+                        {deletedBy && ` oleh ${deletedBy}`}
+                      </p>
+                    </div>
+                    {retentionDays > 0 && (
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {remainingDays(deletedAt, retentionDays)} hari lagi
+                      </span>
+                    )}
+                  </label>
+                ))
+              )}
+            </div>
+
+            {/* Actions */}
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={handleRestore}
+                disabled={!canRestore || selected.size === 0}
+                className="flex-1 gap-2"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Pulihkan ({selected.size})
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handlePurge}
+                disabled={!canPurge || selected.size === 0 || isPurging}
+                className="flex-1 gap-2"
+              >
+                <Trash2 className="w-4 h-4" />
+                {confirmPurge ? "Yakin? Tidak bisa dibatalkan" : `Hapus Permanen (${selected.size})`}
+              </Button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
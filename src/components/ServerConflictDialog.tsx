@@ -0,0 +1,145 @@
+/**
+ * Server Conflict Dialog Component
+ * Muncul saat perubahan offline bertabrakan dengan perubahan di server;
+ * field yang konflik dipilih satu per satu, field lain sudah digabung otomatis
+ */
+
+import { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { CloudOff, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { IStudent } from "@/models/Student";
+import { STUDENT_FIELD_LABELS, StudentField } from "@/utils/studentDiff";
+import { ServerConflict } from "@/utils/syncQueue";
+
+interface ServerConflictDialogProps {
+  conflicts: ServerConflict[];
+  onResolve: (studentId: string, resolved: IStudent | null) => void;
+}
+
+type Side = "local" | "server";
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === "" ? "-" : String(value);
+
+export function ServerConflictDialog({ conflicts, onResolve }: ServerConflictDialogProps) {
+  const conflict = conflicts[0];
+  const [choices, setChoices] = useState<Partial<Record<StudentField, Side>>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflict?.studentId]);
+
+  const subject = conflict?.local ?? conflict?.server;
+  const isDeletion = conflict && (!conflict.local || !conflict.server);
+
+  const handleApply = () => {
+    if (!conflict?.merged) return;
+    const resolved = { ...conflict.merged };
+    conflict.fields.forEach(({ field, server }) => {
+      if (choices[field] === "server") {
+        (resolved as unknown as Record<string, unknown>)[field] = server;
+      }
+    });
+    onResolve(conflict.studentId, resolved);
+  };
+
+  const renderChoice = (field: StudentField, side: Side, value: unknown) => {
+    const selected = (choices[field] ?? "local") === side;
+    return (
+      <button
+        onClick={() => setChoices((prev) => ({ ...prev, [field]: side }))}
+        className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+          selected ? "border-primary bg-primary/10" : "border-border hover:bg-secondary/30"
+        }`}
+      >
+        {formatValue(value)}
+      </button>
+    );
+  };
+
+  return (
+    <AnimatePresence>
+      {conflict && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm"
+        >
+          <motion.div
+            key={conflict.studentId}
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ duration: 0.2 }}
+            className="w-full max-w-2xl glass-card p-6 max-h-[90vh] overflow-y-auto"
+          >
+            {/* Header */}
+            <div className="flex items-center gap-3 mb-6">
+              <div className="w-10 h-10 rounded-lg bg-warning/20 flex items-center justify-center">
+                <CloudOff className="w-5 h-5 text-warning" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold">Konflik dengan Server</h2>
+                <p className="text-sm text-muted-foreground">
+                  {subject ? `${subject.nim} - ${subject.nama}` : conflict.studentId}
+                  {conflicts.length > 1 && ` · 1 dari ${conflicts.length} konflik`}
+                </p>
+              </div>
+            </div>
+
+            {isDeletion ? (
+              <>
+                <p className="text-sm mb-6">
+                  {conflict.local
+                    ? "Data ini Anda ubah saat offline, tetapi sudah dihapus di server."
+                    : "Data ini Anda hapus saat offline, tetapi sudah diubah di server."}
+                </p>
+                <div className="flex gap-3">
+                  <Button variant="outline" onClick={() => onResolve(conflict.studentId, conflict.server)} className="flex-1">
+                    {conflict.server ? "Pertahankan versi server" : "Ikuti server (hapus)"}
+                  </Button>
+                  <Button variant="gradient" onClick={() => onResolve(conflict.studentId, conflict.local)} className="flex-1">
+                    {conflict.local ? "Simpan ulang versi saya" : "Tetap hapus"}
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Field yang hanya berubah di satu sisi sudah digabung otomatis.
+                  Pilih nilai untuk field yang berubah di kedua sisi.
+                </p>
+
+                {/* Pilihan per field */}
+                <div className="space-y-3 mb-6">
+                  <div className="grid grid-cols-[8rem_1fr_1fr] gap-2 text-xs font-medium text-muted-foreground">
+                    <span>Field</span>
+                    <span>Versi saya</span>
+                    <span>Versi server</span>
+                  </div>
+                  {conflict.fields.map(({ field, base, local, server }) => (
+                    <div key={field} className="grid grid-cols-[8rem_1fr_1fr] gap-2 items-center text-sm">
+                      <div>
+                        <p className="font-medium">{STUDENT_FIELD_LABELS[field]}</p>
+                        <p className="text-xs text-muted-foreground">semula: {formatValue(base)}</p>
+                      </div>
+                      {renderChoice(field, "local", local)}
+                      {renderChoice(field, "server", server)}
+                    </div>
+                  ))}
+                </div>
+
+                <Button variant="gradient" onClick={handleApply} className="w-full gap-2">
+                  <Check className="w-4 h-4" />
+                  Terapkan
+                </Button>
+              </>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,210 @@
+/**
+ * Snapshot History Component
+ * Menampilkan riwayat versi data, perbedaannya dengan data saat ini, dan pemulihan
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, History, RotateCcw, Plus, Minus, PenLine } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { IStudent } from "@/models/Student";
+import { listSnapshots, StudentSnapshot } from "@/utils/snapshotStore";
+import { restoreFromSnapshot } from "@/utils/fileIO";
+import { diffDatasets, STUDENT_FIELD_LABELS } from "@/utils/studentDiff";
+import { toast } from "@/hooks/use-toast";
+
+interface SnapshotHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scopeKey: string | null;
+  currentStudents: IStudent[];
+  canRestore: boolean;
+  onRestore: (data: IStudent[], timestamp: string) => boolean;
+}
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString("id-ID", { dateStyle: "medium", timeStyle: "medium" });
+
+export function SnapshotHistory({
+  isOpen,
+  onClose,
+  scopeKey,
+  currentStudents,
+  canRestore,
+  onRestore,
+}: SnapshotHistoryProps) {
+  const [snapshots, setSnapshots] = useState<StudentSnapshot[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !scopeKey) return;
+    setSelectedId(null);
+    listSnapshots(scopeKey)
+      .then(setSnapshots)
+      .catch((error) => {
+        console.error("Error loading snapshots:", error);
+        toast({
+          title: "Error",
+          description: "Gagal memuat riwayat snapshot",
+          variant: "destructive",
+        });
+      });
+  }, [isOpen, scopeKey]);
+
+  const selected = snapshots.find((s) => s.id === selectedId) ?? null;
+
+  // Perubahan yang terjadi jika snapshot dipulihkan
+  const diff = useMemo(
+    () => (selected ? diffDatasets(currentStudents, selected.data) : null),
+    [selected, currentStudents]
+  );
+
+  const handleRestore = async () => {
+    if (!selected || !scopeKey) return;
+    setIsRestoring(true);
+    try {
+      const result = await restoreFromSnapshot(scopeKey, selected.id);
+      if (result.success && result.data) {
+        if (onRestore(result.data, selected.timestamp)) onClose();
+      } else {
+        toast({ title: "Error", description: result.message, variant: "destructive" });
+      }
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm"
+          onClick={(e) => e.target === e.currentTarget && onClose()}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ duration: 0.2 }}
+            className="w-full max-w-4xl glass-card p-6 max-h-[90vh] overflow-y-auto"
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-lg bg-primary/20 flex items-center justify-center">
+                  <History className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-semibold">Riwayat Snapshot</h2>
+                  <p className="text-sm text-muted-foreground">
+                    {snapshots.length} versi tersimpan di perangkat ini
+                  </p>
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" onClick={onClose}>
+                <X className="w-5 h-5" />
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {/* Daftar snapshot */}
+              <div className="space-y-2 md:max-h-[60vh] md:overflow-y-auto">
+                {snapshots.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Belum ada snapshot</p>
+                ) : (
+                  snapshots.map((snapshot) => (
+                    <button
+                      key={snapshot.id}
+                      onClick={() => setSelectedId(snapshot.id)}
+                      className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                        snapshot.id === selectedId
+                          ? "border-primary bg-primary/10"
+                          : "border-border hover:bg-secondary/30"
+                      }`}
+                    >
+                      <p className="text-sm font-medium">{formatTimestamp(snapshot.timestamp)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {snapshot.count} mahasiswa · v{snapshot.version}
+                      </p>
+                    </button>
+                  ))
+                )}
+              </div>
+
+              {/* Perbandingan dengan data saat ini */}
+              <div className="md:col-span-2">
+                {!selected || !diff ? (
+                  <p className="text-sm text-muted-foreground">
+                    Pilih snapshot untuk membandingkan dengan data saat ini
+                  </p>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      <span className="px-2 py-1 rounded-full bg-success/10 text-success">
+                        +{diff.added.length} dikembalikan
+                      </span>
+                      <span className="px-2 py-1 rounded-full bg-destructive/10 text-destructive">
+                        -{diff.removed.length} dihapus
+                      </span>
+                      <span className="px-2 py-1 rounded-full bg-warning/10 text-warning">
+                        {diff.changed.length} diubah
+                      </span>
+                      <span className="px-2 py-1 rounded-full bg-secondary text-muted-foreground">
+                        {diff.unchanged} sama
+                      </span>
+                    </div>
+
+                    <div className="space-y-1 text-sm max-h-[45vh] overflow-y-auto">
+                      {diff.added.map((s) => (
+                        <p key={`add-${s.id}`} className="flex items-center gap-2">
+                          <Plus className="w-3 h-3 text-success" />
+                          {s.nim} - {s.nama}
+                        </p>
+                      ))}
+                      {diff.removed.map((s) => (
+                        <p key={`rm-${s.id}`} className="flex items-center gap-2">
+                          <Minus className="w-3 h-3 text-destructive" />
+                          {s.nim} - {s.nama}
+                        </p>
+                      ))}
+                      {diff.changed.map(({ before, changes }) => (
+                        <div key={`chg-${before.id}`}>
+                          <p className="flex items-center gap-2">
+                            <PenLine className="w-3 h-3 text-warning" />
+                            {before.nim} - {before.nama}
+                          </p>
+                          {changes.map((c) => (
+                            <p key={c.field} className="ml-5 text-xs text-muted-foreground">
+                              {STUDENT_FIELD_LABELS[c.field]}: {String(c.before ?? "-")} →{" "}
+                              {String(c.after ?? "-")}
+                            </p>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+
+                    {canRestore && (
+                      <Button
+                        variant="gradient"
+                        onClick={handleRestore}
+                        disabled={isRestoring}
+                        className="gap-2"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        Pulihkan versi ini
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
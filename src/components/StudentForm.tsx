@@ -2,6 +2,7 @@
  * Student Form Component
  * Form untuk menambah dan mengedit data mahasiswa
  * Dengan validasi menggunakan Regex
+ * IPK tidak diisi manual; nilainya dihitung dari nilai mata kuliah (GradeDialog)
  */
 
 import { useState, useEffect } from "react";
@@ -9,14 +10,14 @@ import { motion, AnimatePresence } from "framer-motion";
 import { X, Save, UserPlus, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { IStudent } from "@/models/Student";
+import { IStudent, JURUSAN_LIST } from "@/models/Student";
+import { IProfile } from "@/models/Profile";
 import {
   validateNIM,
   validateNama,
   validateEmail,
   validateJurusan,
   validateSemester,
-  validateIPK,
 } from "@/utils/validation";
 
 interface StudentFormProps {
@@ -24,6 +25,8 @@ interface StudentFormProps {
   onClose: () => void;
   onSubmit: (data: Omit<IStudent, "id">) => boolean;
   editData?: IStudent | null;
+  // Daftar dosen wali; hanya diisi untuk pengguna yang boleh menetapkan perwalian
+  advisors?: IProfile[];
 }
 
 interface FormErrors {
@@ -32,32 +35,17 @@ interface FormErrors {
   email?: string;
   jurusan?: string;
   semester?: string;
-  ipk?: string;
 }
 
-// Daftar jurusan untuk autocomplete
-const JURUSAN_LIST = [
-  "Teknik Informatika",
-  "Sistem Informasi",
-  "Teknik Elektro",
-  "Teknik Mesin",
-  "Teknik Sipil",
-  "Manajemen",
-  "Akuntansi",
-  "Psikologi",
-  "Hukum",
-  "Kedokteran",
-];
-
-export function StudentForm({ isOpen, onClose, onSubmit, editData }: StudentFormProps) {
+export function StudentForm({ isOpen, onClose, onSubmit, editData, advisors }: StudentFormProps) {
   const [formData, setFormData] = useState({
     nim: "",
     nama: "",
     email: "",
     jurusan: "",
     semester: "",
-    ipk: "",
   });
+  const [dosenWaliId, setDosenWaliId] = useState("");
   const [errors, setErrors] = useState<FormErrors>({});
   const [touched, setTouched] = useState<Record<string, boolean>>({});
 
@@ -71,8 +59,8 @@ export function StudentForm({ isOpen, onClose, onSubmit, editData }: StudentForm
           email: editData.email,
           jurusan: editData.jurusan,
           semester: editData.semester.toString(),
-          ipk: editData.ipk.toString(),
         });
+        setDosenWaliId(editData.dosenWaliId ?? "");
       } else {
         setFormData({
           nim: "",
@@ -80,8 +68,8 @@ export function StudentForm({ isOpen, onClose, onSubmit, editData }: StudentForm
           email: "",
           jurusan: "",
           semester: "",
-          ipk: "",
         });
+        setDosenWaliId("");
       }
       setErrors({});
       setTouched({});
@@ -107,9 +95,6 @@ export function StudentForm({ isOpen, onClose, onSubmit, editData }: StudentForm
         case "semester":
           const semesterResult = validateSemester(parseInt(value) || 0);
           return semesterResult.isValid ? undefined : semesterResult.message;
-        case "ipk":
-          const ipkResult = validateIPK(parseFloat(value) || 0);
-          return ipkResult.isValid ? undefined : ipkResult.message;
         default:
           return undefined;
       }
@@ -153,7 +138,6 @@ export function StudentForm({ isOpen, onClose, onSubmit, editData }: StudentForm
       email: true,
       jurusan: true,
       semester: true,
-      ipk: true,
     });
 
     if (Object.keys(newErrors).length > 0) return;
@@ -165,8 +149,10 @@ export function StudentForm({ isOpen, onClose, onSubmit, editData }: StudentForm
         email: formData.email,
         jurusan: formData.jurusan,
         semester: parseInt(formData.semester),
-        ipk: parseFloat(formData.ipk),
+        // Server selalu menghitung ulang IPK dari nilai; nilai ini hanya untuk state lokal
+        ipk: editData?.ipk ?? 0,
         tanggalMasuk: editData?.tanggalMasuk || new Date().toISOString().split("T")[0],
+        ...(advisors ? { dosenWaliId: dosenWaliId || null } : {}),
       });
 
       if (success) {
@@ -290,21 +276,32 @@ export function StudentForm({ isOpen, onClose, onSubmit, editData }: StudentForm
                   min="1"
                   max="14"
                 />
-                <FormField
-                  label="IPK"
-                  name="ipk"
-                  type="number"
-                  step="0.01"
-                  value={formData.ipk}
-                  onChange={handleChange}
-                  onBlur={handleBlur}
-                  error={touched.ipk ? errors.ipk : undefined}
-                  placeholder="0.00 - 4.00"
-                  min="0"
-                  max="4"
-                />
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">IPK (dari nilai)</label>
+                  <Input value={(editData?.ipk ?? 0).toFixed(2)} readOnly disabled />
+                </div>
               </div>
 
+              {/* Dosen Wali */}
+              {advisors && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">Dosen Wali</label>
+                  <select
+                    name="dosenWaliId"
+                    value={dosenWaliId}
+                    onChange={(e) => setDosenWaliId(e.target.value)}
+                    className="flex h-10 w-full rounded-lg border border-border bg-secondary/50 px-3 py-2 text-sm text-foreground transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary/50"
+                  >
+                    <option value="">Belum ditetapkan</option>
+                    {advisors.map((a) => (
+                      <option key={a.id} value={a.id}>
+                        {a.fullName || a.id}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {/* Submit Button */}
               <div className="flex gap-3 pt-4">
                 <Button type="button" variant="outline" className="flex-1" onClick={onClose}>
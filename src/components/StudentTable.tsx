@@ -1,9 +1,9 @@
 /**
  * Student Table Component
- * Menampilkan data mahasiswa dalam tabel dengan fitur sorting dan search
+ * Menampilkan data mahasiswa dalam tabel dengan fitur sorting, search, dan aksi massal
  */
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Search,
@@ -16,18 +16,32 @@ import {
   ChevronLeft,
   ChevronRight,
   Clock,
+  ClipboardList,
+  Printer,
+  ArrowUpCircle,
+  AlertCircle,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { BatchActionBar } from "@/components/BatchActionBar";
 import { IStudent } from "@/models/Student";
 import { linearSearchAll } from "@/utils/searchAlgorithms";
 import {
-  bubbleSort,
-  selectionSort,
+  Collation,
+  COLLATION_LABELS,
+  DEFAULT_COLLATION,
+  DEFAULT_SORT_ALGORITHM,
+  getSortAlgorithm,
+  PIVOT_STRATEGY_LABELS,
+  PivotStrategy,
+  SORT_ALGORITHM_IDS,
+  SortAlgorithmId,
   SortField,
-  SortOrder,
+  SortKey,
   SortResult,
+  unsupportedReason,
 } from "@/utils/sortAlgorithms";
+import { STUDENT_FIELD_LABELS } from "@/utils/studentDiff";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -39,21 +53,74 @@ interface StudentTableProps {
   students: IStudent[];
   onEdit: (student: IStudent) => void;
   onDelete: (id: string) => void;
+  onGrades: (student: IStudent) => void;
+  onTranscript: (student: IStudent) => void;
+  canEdit: (student: IStudent) => boolean;
+  canDelete: (student: IStudent) => boolean;
+  // Baris yang baru diubah pengguna lain (realtime)
+  highlightedIds?: Set<string>;
+  // Aksi massal untuk baris yang dipilih
+  onBatchDelete?: (ids: string[]) => void;
+  onBatchChangeJurusan?: (ids: string[], jurusan: string) => boolean;
+  // Naik semester untuk baris terpilih atau seluruh hasil filter
+  onPromoteSemester?: (students: IStudent[], source: string) => void;
 }
 
 type SearchField = "nim" | "nama" | "jurusan" | "email";
 
 const ITEMS_PER_PAGE = 10;
 
-export function StudentTable({ students, onEdit, onDelete }: StudentTableProps) {
+/**
+ * Klik header mengganti kunci utama (atau membalik urutannya);
+ * Shift+klik menambah kunci sekunder, membaliknya, lalu menghapusnya
+ * Time Complexity: O(k)
+ */
+function updateSortKeys(keys: SortKey[], field: SortField, additive: boolean): SortKey[] {
+  const existing = keys.find((k) => k.field === field);
+
+  if (!additive) {
+    if (keys.length === 1 && existing) {
+      return [{ field, order: existing.order === "asc" ? "desc" : "asc" }];
+    }
+    return [{ field, order: "asc" }];
+  }
+
+  if (!existing) return [...keys, { field, order: "asc" }];
+  if (existing.order === "asc") {
+    return keys.map((k) => (k.field === field ? { field, order: "desc" } : k));
+  }
+  // Kunci terakhir yang tersisa tidak dihapus
+  return keys.length > 1 ? keys.filter((k) => k.field !== field) : [{ field, order: "asc" }];
+}
+
+export function StudentTable({
+  students,
+  onEdit,
+  onDelete,
+  onGrades,
+  onTranscript,
+  canEdit,
+  canDelete,
+  highlightedIds,
+  onBatchDelete,
+  onBatchChangeJurusan,
+  onPromoteSemester,
+}: StudentTableProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const [searchField, setSearchField] = useState<SearchField>("nama");
-  const [sortField, setSortField] = useState<SortField>("nama");
-  const [sortOrder, setSortOrder] = useState<SortOrder>("asc");
-  const [sortAlgorithm, setSortAlgorithm] = useState<"bubble" | "selection">("bubble");
+  const [sortKeys, setSortKeys] = useState<SortKey[]>([{ field: "nama", order: "asc" }]);
+  const [sortAlgorithm, setSortAlgorithm] = useState<SortAlgorithmId>(DEFAULT_SORT_ALGORITHM);
+  const [pivotStrategy, setPivotStrategy] = useState<PivotStrategy>("median-of-three");
+  const [collation, setCollation] = useState<Collation>(DEFAULT_COLLATION);
   const [currentPage, setCurrentPage] = useState(1);
   const [sortInfo, setSortInfo] = useState<SortResult | null>(null);
   const [searchInfo, setSearchInfo] = useState<{ comparisons: number; timeComplexity: string } | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Algoritma khusus field/perbandingan (counting, radix) diganti algoritma default jika tidak cocok;
+  // alasannya ditampilkan di panel info agar penggantian tidak terjadi diam-diam
+  const fallbackReason = unsupportedReason(sortAlgorithm, sortKeys, collation);
+  const activeAlgorithm = fallbackReason ? DEFAULT_SORT_ALGORITHM : sortAlgorithm;
 
   // Filter dan sort data - O(n log n) atau O(n²) tergantung algoritma
   const processedData = useMemo(() => {
@@ -75,8 +142,7 @@ export function StudentTable({ students, onEdit, onDelete }: StudentTableProps)
 
     // Sort
     if (result.length > 0) {
-      const sortFunction = sortAlgorithm === "bubble" ? bubbleSort : selectionSort;
-      const sortResult = sortFunction(result, sortField, sortOrder);
+      const sortResult = getSortAlgorithm(activeAlgorithm).sort(result, sortKeys, "asc", { pivotStrategy, collation });
       setSortInfo(sortResult);
       result = sortResult.sortedData;
     } else {
@@ -84,7 +150,7 @@ export function StudentTable({ students, onEdit, onDelete }: StudentTableProps)
     }
 
     return result;
-  }, [students, searchQuery, searchField, sortField, sortOrder, sortAlgorithm]);
+  }, [students, searchQuery, searchField, sortKeys, activeAlgorithm, pivotStrategy, collation]);
 
   // Pagination
   const totalPages = Math.ceil(processedData.length / ITEMS_PER_PAGE);
@@ -98,21 +164,56 @@ export function StudentTable({ students, onEdit, onDelete }: StudentTableProps)
     setCurrentPage(1);
   }, [searchQuery]);
 
-  const handleSort = (field: SortField) => {
-    if (sortField === field) {
-      setSortOrder(sortOrder === "asc" ? "desc" : "asc");
-    } else {
-      setSortField(field);
-      setSortOrder("asc");
-    }
+  // Pilihan hanya berlaku untuk hasil pencarian saat ini - O(n)
+  useEffect(() => {
+    setSelectedIds((prev) => {
+      if (prev.size === 0) return prev;
+      const visible = new Set(processedData.map((s) => s.id));
+      const next = new Set([...prev].filter((id) => visible.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [processedData]);
+
+  const selectedStudents = useMemo(
+    () => processedData.filter((s) => selectedIds.has(s.id)),
+    [processedData, selectedIds]
+  );
+  const pageSelected = paginatedData.length > 0 && paginatedData.every((s) => selectedIds.has(s.id));
+  const pagePartlySelected = !pageSelected && paginatedData.some((s) => selectedIds.has(s.id));
+
+  const toggleRow = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const togglePage = () => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      paginatedData.forEach((s) => (pageSelected ? next.delete(s.id) : next.add(s.id)));
+      return next;
+    });
+  };
+
+  const handleSort = (field: SortField, additive: boolean) => {
+    setSortKeys((prev) => updateSortKeys(prev, field, additive));
   };
 
   const getSortIcon = (field: SortField) => {
-    if (sortField !== field) return <ArrowUpDown className="w-4 h-4" />;
-    return sortOrder === "asc" ? (
-      <ArrowUp className="w-4 h-4 text-primary" />
-    ) : (
-      <ArrowDown className="w-4 h-4 text-primary" />
+    const index = sortKeys.findIndex((k) => k.field === field);
+    if (index === -1) return <ArrowUpDown className="w-4 h-4" />;
+    return (
+      <>
+        {sortKeys[index].order === "asc" ? (
+          <ArrowUp className="w-4 h-4 text-primary" />
+        ) : (
+          <ArrowDown className="w-4 h-4 text-primary" />
+        )}
+        {sortKeys.length > 1 && <span className="text-xs text-primary">{index + 1}</span>}
+      </>
     );
   };
 
@@ -147,21 +248,65 @@ export function StudentTable({ students, onEdit, onDelete }: StudentTableProps)
 
         {/* Sort Algorithm Select */}
         <div className="flex items-center gap-2">
+          {onPromoteSemester && processedData.some(canEdit) && (
+            <Button
+              variant="outline"
+              onClick={() =>
+                onPromoteSemester(processedData, searchQuery.trim() ? "hasil filter" : "(semua data)")
+              }
+              className="gap-2"
+            >
+              <ArrowUpCircle className="w-4 h-4" />
+              Naik Semester
+            </Button>
+          )}
           <span className="text-sm text-muted-foreground">Algoritma:</span>
           <select
             value={sortAlgorithm}
-            onChange={(e) => setSortAlgorithm(e.target.value as "bubble" | "selection")}
+            onChange={(e) => setSortAlgorithm(e.target.value as SortAlgorithmId)}
+            className="h-10 rounded-lg border border-border bg-secondary/50 px-3 text-sm"
+          >
+            {SORT_ALGORITHM_IDS.map((id) => {
+              const reason = unsupportedReason(id, sortKeys, collation);
+              return (
+                <option key={id} value={id} disabled={!!reason && id !== sortAlgorithm}>
+                  {getSortAlgorithm(id).name}
+                  {reason && ` (${reason})`}
+                </option>
+              );
+            })}
+          </select>
+          <select
+            value={collation}
+            onChange={(e) => setCollation(e.target.value as Collation)}
+            title="Cara membandingkan teks"
             className="h-10 rounded-lg border border-border bg-secondary/50 px-3 text-sm"
           >
-            <option value="bubble">Bubble Sort</option>
-            <option value="selection">Selection Sort</option>
+            {(Object.keys(COLLATION_LABELS) as Collation[]).map((c) => (
+              <option key={c} value={c}>
+                {COLLATION_LABELS[c]}
+              </option>
+            ))}
           </select>
+          {getSortAlgorithm(activeAlgorithm).pivot && (
+            <select
+              value={pivotStrategy}
+              onChange={(e) => setPivotStrategy(e.target.value as PivotStrategy)}
+              className="h-10 rounded-lg border border-border bg-secondary/50 px-3 text-sm"
+            >
+              {(Object.keys(PIVOT_STRATEGY_LABELS) as PivotStrategy[]).map((strategy) => (
+                <option key={strategy} value={strategy}>
+                  Pivot: {PIVOT_STRATEGY_LABELS[strategy]}
+                </option>
+              ))}
+            </select>
+          )}
         </div>
       </div>
 
       {/* Algorithm Info */}
       <AnimatePresence>
-        {(searchInfo || sortInfo) && (
+        {(searchInfo || sortInfo || fallbackReason) && (
           <motion.div
             initial={{ opacity: 0, height: 0 }}
             animate={{ opacity: 1, height: "auto" }}
@@ -180,6 +325,13 @@ export function StudentTable({ students, onEdit, onDelete }: StudentTableProps)
                 </span>
               </div>
             )}
+            {fallbackReason && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="w-4 h-4" />
+                {getSortAlgorithm(sortAlgorithm).name} tidak dipakai ({fallbackReason}); memakai{" "}
+                {getSortAlgorithm(DEFAULT_SORT_ALGORITHM).name}
+              </div>
+            )}
             {sortInfo && (
               <div className="flex items-center gap-2 text-sm">
                 <Clock className="w-4 h-4 text-primary" />
@@ -188,7 +340,19 @@ export function StudentTable({ students, onEdit, onDelete }: StudentTableProps)
                   {sortInfo.timeComplexity.average}
                 </code>
                 <span className="text-muted-foreground">
-                  ({sortInfo.comparisons} perbandingan, {sortInfo.swaps} swap)
+                  ({sortInfo.comparisons} perbandingan, {sortInfo.swaps} swap,{" "}
+                  {sortInfo.stable ? "stabil" : "tidak stabil"})
+                </span>
+              </div>
+            )}
+            {sortInfo && (
+              <div className="flex items-center gap-2 text-sm" title="Shift+klik header untuk menambah kunci urutan">
+                <ArrowUpDown className="w-4 h-4 text-muted-foreground" />
+                <span className="text-muted-foreground">Urutan:</span>
+                <span>
+                  {sortKeys
+                    .map((k) => `${STUDENT_FIELD_LABELS[k.field]} ${k.order === "asc" ? "↑" : "↓"}`)
+                    .join(", ")}
                 </span>
               </div>
             )}
@@ -196,18 +360,46 @@ export function StudentTable({ students, onEdit, onDelete }: StudentTableProps)
         )}
       </AnimatePresence>
 
+      {/* Batch Actions */}
+      <AnimatePresence>
+        {selectedStudents.length > 0 && (
+          <BatchActionBar
+            selected={selectedStudents}
+            totalResults={processedData.length}
+            canSelectAllResults={pageSelected && selectedStudents.length < processedData.length}
+            onSelectAllResults={() => setSelectedIds(new Set(processedData.map((s) => s.id)))}
+            onClear={() => setSelectedIds(new Set())}
+            canDelete={selectedStudents.every(canDelete)}
+            canUpdate={selectedStudents.every(canEdit)}
+            onDelete={onBatchDelete}
+            onChangeJurusan={onBatchChangeJurusan}
+            onPromoteSemester={onPromoteSemester && ((selected) => onPromoteSemester(selected, "terpilih"))}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Table */}
       <div className="rounded-xl border border-border overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead>
               <tr className="bg-secondary/50 border-b border-border">
-                <TableHeader label="NIM" field="nim" sortField={sortField} onSort={handleSort} getSortIcon={getSortIcon} />
-                <TableHeader label="Nama" field="nama" sortField={sortField} onSort={handleSort} getSortIcon={getSortIcon} />
-                <TableHeader label="Email" field="nim" sortField={sortField} onSort={() => {}} getSortIcon={() => null} sortable={false} />
-                <TableHeader label="Jurusan" field="jurusan" sortField={sortField} onSort={handleSort} getSortIcon={getSortIcon} />
-                <TableHeader label="Semester" field="semester" sortField={sortField} onSort={handleSort} getSortIcon={getSortIcon} />
-                <TableHeader label="IPK" field="ipk" sortField={sortField} onSort={handleSort} getSortIcon={getSortIcon} />
+                <th className="w-10 px-4 py-3">
+                  <input
+                    type="checkbox"
+                    aria-label="Pilih semua di halaman ini"
+                    checked={pageSelected}
+                    ref={(el) => el && (el.indeterminate = pagePartlySelected)}
+                    onChange={togglePage}
+                    disabled={paginatedData.length === 0}
+                  />
+                </th>
+                <TableHeader label="NIM" field="nim" sortField={sortKeys[0]?.field ?? "nama"} onSort={handleSort} getSortIcon={getSortIcon} />
+                <TableHeader label="Nama" field="nama" sortField={sortKeys[0]?.field ?? "nama"} onSort={handleSort} getSortIcon={getSortIcon} />
+                <TableHeader label="Email" field="nim" sortField={sortKeys[0]?.field ?? "nama"} onSort={() => {}} getSortIcon={() => null} sortable={false} />
+                <TableHeader label="Jurusan" field="jurusan" sortField={sortKeys[0]?.field ?? "nama"} onSort={handleSort} getSortIcon={getSortIcon} />
+                <TableHeader label="Semester" field="semester" sortField={sortKeys[0]?.field ?? "nama"} onSort={handleSort} getSortIcon={getSortIcon} />
+                <TableHeader label="IPK" field="ipk" sortField={sortKeys[0]?.field ?? "nama"} onSort={handleSort} getSortIcon={getSortIcon} />
                 <th className="px-4 py-3 text-right text-sm font-medium text-muted-foreground">
                   Aksi
                 </th>
@@ -221,7 +413,7 @@ export function StudentTable({ students, onEdit, onDelete }: StudentTableProps)
                     animate={{ opacity: 1 }}
                     exit={{ opacity: 0 }}
                   >
-                    <td colSpan={7} className="px-4 py-12 text-center text-muted-foreground">
+                    <td colSpan={8} className="px-4 py-12 text-center text-muted-foreground">
                       {searchQuery ? "Tidak ada data yang cocok" : "Belum ada data mahasiswa"}
                     </td>
                   </motion.tr>
@@ -233,8 +425,18 @@ export function StudentTable({ students, onEdit, onDelete }: StudentTableProps)
                       animate={{ opacity: 1, y: 0 }}
                       exit={{ opacity: 0, y: -20 }}
                       transition={{ delay: index * 0.05 }}
-                      className="border-b border-border/50 hover:bg-secondary/30 transition-colors"
+                      className={`border-b border-border/50 hover:bg-secondary/30 transition-colors duration-700 ${
+                        highlightedIds?.has(student.id) || selectedIds.has(student.id) ? "bg-primary/10" : ""
+                      }`}
                     >
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          aria-label={`Pilih ${student.nama}`}
+                          checked={selectedIds.has(student.id)}
+                          onChange={() => toggleRow(student.id)}
+                        />
+                      </td>
                       <td className="px-4 py-3">
                         <code className="px-2 py-1 rounded bg-primary/10 text-primary font-mono text-xs">
                           {student.nim}
@@ -265,14 +467,16 @@ export function StudentTable({ students, onEdit, onDelete }: StudentTableProps)
                       </td>
                       <td className="px-4 py-3">
                         <div className="flex items-center justify-end gap-1">
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => onEdit(student)}
-                            className="h-8 w-8"
-                          >
-                            <Edit className="w-4 h-4" />
-                          </Button>
+                          {canEdit(student) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => onEdit(student)}
+                              className="h-8 w-8"
+                            >
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                          )}
                           <DropdownMenu>
                             <DropdownMenuTrigger asChild>
                               <Button variant="ghost" size="icon" className="h-8 w-8">
@@ -280,17 +484,29 @@ export function StudentTable({ students, onEdit, onDelete }: StudentTableProps)
                               </Button>
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
-                              <DropdownMenuItem onClick={() => onEdit(student)}>
-                                <Edit className="w-4 h-4 mr-2" />
-                                Edit
+                              <DropdownMenuItem onClick={() => onGrades(student)}>
+                                <ClipboardList className="w-4 h-4 mr-2" />
+                                Nilai & IPK
                               </DropdownMenuItem>
-                              <DropdownMenuItem
-                                onClick={() => onDelete(student.id)}
-                                className="text-destructive focus:text-destructive"
-                              >
-                                <Trash2 className="w-4 h-4 mr-2" />
-                                Hapus
+                              <DropdownMenuItem onClick={() => onTranscript(student)}>
+                                <Printer className="w-4 h-4 mr-2" />
+                                Cetak Transkrip
                               </DropdownMenuItem>
+                              {canEdit(student) && (
+                                <DropdownMenuItem onClick={() => onEdit(student)}>
+                                  <Edit className="w-4 h-4 mr-2" />
+                                  Edit
+                                </DropdownMenuItem>
+                              )}
+                              {canDelete(student) && (
+                                <DropdownMenuItem
+                                  onClick={() => onDelete(student.id)}
+                                  className="text-destructive focus:text-destructive"
+                                >
+                                  <Trash2 className="w-4 h-4 mr-2" />
+                                  Hapus
+                                </DropdownMenuItem>
+                              )}
                             </DropdownMenuContent>
                           </DropdownMenu>
                         </div>
@@ -343,7 +559,8 @@ interface TableHeaderProps {
   label: string;
   field: SortField;
   sortField: SortField;
-  onSort: (field: SortField) => void;
+  // additive = true saat Shift+klik (tambah kunci sekunder)
+  onSort: (field: SortField, additive: boolean) => void;
   getSortIcon: (field: SortField) => React.ReactNode;
   sortable?: boolean;
 }
@@ -353,8 +570,8 @@ function TableHeader({ label, field, onSort, getSortIcon, sortable = true }: Tab
     <th className="px-4 py-3 text-left">
       {sortable ? (
         <button
-          onClick={() => onSort(field)}
-          className="flex items-center gap-1 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors"
+          onClick={(e) => onSort(field, e.shiftKey)}
+          className="flex items-center gap-1 text-sm font-medium text-muted-foreground hover:text-foreground transition-colors select-none"
         >
           {label}
           {getSortIcon(field)}
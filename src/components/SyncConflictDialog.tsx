@@ -0,0 +1,112 @@
+/**
+ * Sync Conflict Dialog Component
+ * Muncul saat tab lain mengubah mahasiswa yang sama dengan tab ini;
+ * pengguna memilih versi yang dipertahankan, satu konflik per langkah
+ */
+
+import { motion, AnimatePresence } from "framer-motion";
+import { AlertTriangle, Monitor, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { IStudent } from "@/models/Student";
+import { STUDENT_FIELDS, STUDENT_FIELD_LABELS } from "@/utils/studentDiff";
+import { SyncConflict } from "@/utils/tabSync";
+
+interface SyncConflictDialogProps {
+  conflicts: SyncConflict[];
+  onResolve: (id: string, choice: "local" | "remote") => void;
+}
+
+const formatValue = (student: IStudent | null, field: (typeof STUDENT_FIELDS)[number]) => {
+  if (!student) return "—";
+  const value = student[field];
+  return value === null || value === undefined || value === "" ? "-" : String(value);
+};
+
+export function SyncConflictDialog({ conflicts, onResolve }: SyncConflictDialogProps) {
+  const conflict = conflicts[0];
+  const subject = conflict?.local ?? conflict?.remote;
+
+  return (
+    <AnimatePresence>
+      {conflict && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-background/80 backdrop-blur-sm"
+        >
+          <motion.div
+            key={conflict.id}
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            transition={{ duration: 0.2 }}
+            className="w-full max-w-2xl glass-card p-6 max-h-[90vh] overflow-y-auto"
+          >
+            {/* Header */}
+            <div className="flex items-center gap-3 mb-6">
+              <div className="w-10 h-10 rounded-lg bg-warning/20 flex items-center justify-center">
+                <AlertTriangle className="w-5 h-5 text-warning" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold">Konflik Perubahan</h2>
+                <p className="text-sm text-muted-foreground">
+                  {subject ? `${subject.nim} - ${subject.nama}` : conflict.id} diubah di tab lain
+                  {conflicts.length > 1 && ` · 1 dari ${conflicts.length} konflik`}
+                </p>
+              </div>
+            </div>
+
+            {/* Perbandingan */}
+            <div className="rounded-lg border border-border overflow-hidden mb-6">
+              <table className="w-full text-sm">
+                <thead className="bg-secondary/50">
+                  <tr>
+                    <th className="text-left px-3 py-2 font-medium">Field</th>
+                    <th className="text-left px-3 py-2 font-medium">Versi tab ini</th>
+                    <th className="text-left px-3 py-2 font-medium">Versi tab lain</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {!conflict.local || !conflict.remote ? (
+                    <tr className="border-t border-border">
+                      <td className="px-3 py-2 text-muted-foreground">Status</td>
+                      <td className="px-3 py-2">{conflict.local ? "Diubah" : "Dihapus"}</td>
+                      <td className="px-3 py-2">{conflict.remote ? "Diubah" : "Dihapus"}</td>
+                    </tr>
+                  ) : null}
+                  {STUDENT_FIELDS.map((field) => {
+                    const local = formatValue(conflict.local, field);
+                    const remote = formatValue(conflict.remote, field);
+                    return (
+                      <tr
+                        key={field}
+                        className={`border-t border-border ${local !== remote ? "bg-warning/10" : ""}`}
+                      >
+                        <td className="px-3 py-2 text-muted-foreground">{STUDENT_FIELD_LABELS[field]}</td>
+                        <td className="px-3 py-2">{local}</td>
+                        <td className="px-3 py-2">{remote}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Actions */}
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={() => onResolve(conflict.id, "remote")} className="flex-1 gap-2">
+                <Copy className="w-4 h-4" />
+                Pakai versi tab lain
+              </Button>
+              <Button variant="gradient" onClick={() => onResolve(conflict.id, "local")} className="flex-1 gap-2">
+                <Monitor className="w-4 h-4" />
+                Pertahankan versi ini
+              </Button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -13,6 +13,14 @@ import {
   FileSpreadsheet,
   RefreshCw,
   Database,
+  Users,
+  BookOpen,
+  Undo2,
+  Redo2,
+  History,
+  ScrollText,
+  Sheet,
+  Trash2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -23,18 +31,70 @@ import {
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
 import { IStudent } from "@/models/Student";
-import { exportToJSON, exportToCSV, importFromJSON } from "@/utils/fileIO";
+import { IWorkspace } from "@/models/Workspace";
+import { exportToJSON, exportToCSV, importFromJSON, readTextFile } from "@/utils/fileIO";
+import { CSVImportDialog } from "@/components/CSVImportDialog";
+import { ImportReviewDialog } from "@/components/ImportReviewDialog";
+import { ImportStrategy } from "@/utils/importMerge";
+import { QuarantinedRecord, partitionRecords } from "@/utils/studentSchema";
+import { exportToXLSX, importFromXLSX } from "@/utils/excelIO";
 import { toast } from "@/hooks/use-toast";
 
 interface ToolbarProps {
   onAddClick: () => void;
+  onCoursesClick: () => void;
+  onHistoryClick: () => void;
+  onAuditClick: () => void;
+  onRecycleBinClick: () => void;
+  recycleBinCount: number;
   students: IStudent[];
-  onImport: (data: IStudent[]) => void;
+  onImport: (data: Partial<IStudent>[], strategy: ImportStrategy) => void;
   lastSaved: string | null;
+  pendingSync: number;
+  workspaces: IWorkspace[];
+  workspaceId: string | null;
+  onWorkspaceChange: (id: string | null) => void;
+  canCreate: boolean;
+  canImport: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
 }
 
-export function Toolbar({ onAddClick, students, onImport, lastSaved }: ToolbarProps) {
+
+export function Toolbar({
+  onAddClick,
+  onCoursesClick,
+  onHistoryClick,
+  onAuditClick,
+  onRecycleBinClick,
+  recycleBinCount,
+  students,
+  onImport,
+  lastSaved,
+  pendingSync,
+  workspaces,
+  workspaceId,
+  onWorkspaceChange,
+  canCreate,
+  canImport,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  undoLabel,
+  redoLabel,
+}: ToolbarProps) {
   const [isImporting, setIsImporting] = useState(false);
+  const [csvFile, setCsvFile] = useState<{ name: string; text: string; rows?: string[][] } | null>(null);
+  const [pendingImport, setPendingImport] = useState<{
+    source: string;
+    records: Partial<IStudent>[];
+    quarantined?: QuarantinedRecord[];
+  } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleExportJSON = () => {
@@ -69,6 +129,30 @@ export function Toolbar({ onAddClick, students, onImport, lastSaved }: ToolbarPr
     });
   };
 
+  const handleExportXLSX = async () => {
+    if (students.length === 0) {
+      toast({
+        title: "Tidak ada data",
+        description: "Tidak ada data mahasiswa untuk diekspor",
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      await exportToXLSX(students);
+      toast({
+        title: "Berhasil",
+        description: "Data berhasil diekspor ke Excel",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Gagal membuat file Excel",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleImportClick = () => {
     fileInputRef.current?.click();
   };
@@ -79,9 +163,24 @@ export function Toolbar({ onAddClick, students, onImport, lastSaved }: ToolbarPr
 
     setIsImporting(true);
     try {
+      // CSV/TSV dan Excel melewati langkah pemetaan kolom dan preview
+      if (/\.(csv|tsv|txt)$/i.test(file.name)) {
+        setCsvFile({ name: file.name, text: await readTextFile(file) });
+        return;
+      }
+      if (/\.xlsx$/i.test(file.name)) {
+        const sheet = await importFromXLSX(file);
+        if (sheet.success && sheet.rows) {
+          setCsvFile({ name: file.name, text: "", rows: sheet.rows });
+        } else {
+          toast({ title: "Error", description: sheet.message, variant: "destructive" });
+        }
+        return;
+      }
+
       const result = await importFromJSON(file);
       if (result.success && result.data) {
-        onImport(result.data);
+        setPendingImport({ source: file.name, records: result.data, quarantined: result.quarantined });
       } else {
         toast({
           title: "Error",
@@ -123,10 +222,56 @@ export function Toolbar({ onAddClick, students, onImport, lastSaved }: ToolbarPr
       animate={{ opacity: 1, y: 0 }}
       className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 p-4 rounded-xl bg-card/50 border border-border backdrop-blur-sm"
     >
-      <div className="flex items-center gap-3">
-        <Button variant="gradient" onClick={onAddClick} className="gap-2">
-          <Plus className="w-4 h-4" />
-          Tambah Mahasiswa
+      <div className="flex flex-wrap items-center gap-3">
+        {canCreate && (
+          <Button variant="gradient" onClick={onAddClick} className="gap-2">
+            <Plus className="w-4 h-4" />
+            Tambah Mahasiswa
+          </Button>
+        )}
+
+        <div className="flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={onUndo}
+            disabled={!canUndo}
+            title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : "Undo (Ctrl+Z)"}
+          >
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={onRedo}
+            disabled={!canRedo}
+            title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : "Redo (Ctrl+Shift+Z)"}
+          >
+            <Redo2 className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <Button variant="outline" onClick={onCoursesClick} className="gap-2">
+          <BookOpen className="w-4 h-4" />
+          Mata Kuliah
+        </Button>
+
+        <Button variant="outline" onClick={onHistoryClick} className="gap-2">
+          <History className="w-4 h-4" />
+          Riwayat
+        </Button>
+
+        <Button variant="outline" onClick={onAuditClick} className="gap-2">
+          <ScrollText className="w-4 h-4" />
+          Log Audit
+        </Button>
+
+        <Button variant="outline" onClick={onRecycleBinClick} className="gap-2">
+          <Trash2 className="w-4 h-4" />
+          Recycle Bin
+          {recycleBinCount > 0 && (
+            <span className="px-1.5 rounded-full bg-destructive/10 text-destructive text-xs">{recycleBinCount}</span>
+          )}
         </Button>
 
         <DropdownMenu>
@@ -145,37 +290,94 @@ export function Toolbar({ onAddClick, students, onImport, lastSaved }: ToolbarPr
               <FileSpreadsheet className="w-4 h-4 mr-2" />
               Export sebagai CSV
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={handleExportXLSX}>
+              <Sheet className="w-4 h-4 mr-2" />
+              Export sebagai Excel
+            </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
 
-        <Button
-          variant="outline"
-          onClick={handleImportClick}
-          disabled={isImporting}
-          className="gap-2"
-        >
-          {isImporting ? (
-            <RefreshCw className="w-4 h-4 animate-spin" />
-          ) : (
-            <Upload className="w-4 h-4" />
-          )}
-          Import
-        </Button>
+        {canImport && (
+          <>
+            <Button
+              variant="outline"
+              onClick={handleImportClick}
+              disabled={isImporting}
+              className="gap-2"
+            >
+              {isImporting ? (
+                <RefreshCw className="w-4 h-4 animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4" />
+              )}
+              Import
+            </Button>
 
-        <input
-          ref={fileInputRef}
-          type="file"
-          accept=".json"
-          onChange={handleFileChange}
-          className="hidden"
-        />
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,.tsv,.txt,.xlsx"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </>
+        )}
       </div>
 
-      {/* Status */}
-      <div className="flex items-center gap-2 text-sm text-muted-foreground">
-        <Database className="w-4 h-4" />
-        <span>Terakhir disimpan: {formatLastSaved(lastSaved)}</span>
+      <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
+        {/* Workspace */}
+        {workspaces.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Users className="w-4 h-4 text-muted-foreground" />
+            <select
+              value={workspaceId ?? ""}
+              onChange={(e) => onWorkspaceChange(e.target.value || null)}
+              className="h-10 rounded-lg border border-border bg-secondary/50 px-3 text-sm"
+            >
+              <option value="">Data Pribadi</option>
+              {workspaces.map((w) => (
+                <option key={w.id} value={w.id}>
+                  {w.nama}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Status */}
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Database className="w-4 h-4" />
+          <span>Terakhir disimpan: {formatLastSaved(lastSaved)}</span>
+          {pendingSync > 0 && (
+            <span className="text-warning">· {pendingSync} perubahan belum tersinkron</span>
+          )}
+        </div>
       </div>
+
+      {/* Pemetaan kolom dan preview import CSV */}
+      <CSVImportDialog
+        isOpen={!!csvFile}
+        onClose={() => setCsvFile(null)}
+        fileName={csvFile?.name ?? ""}
+        text={csvFile?.text ?? ""}
+        sheetRows={csvFile?.rows}
+        onImport={(records) => {
+          // Baris yang lolos preview tetap dicek terhadap skema, seperti import JSON
+          const { valid, quarantined } = partitionRecords(records);
+          setPendingImport({ source: csvFile?.name ?? "CSV", records: valid, quarantined });
+        }}
+      />
+
+      {/* Pilih strategi import dan tinjau konflik */}
+      <ImportReviewDialog
+        isOpen={!!pendingImport}
+        onClose={() => setPendingImport(null)}
+        source={pendingImport?.source ?? ""}
+        records={pendingImport?.records ?? []}
+        quarantined={pendingImport?.quarantined ?? []}
+        existing={students}
+        onConfirm={onImport}
+      />
     </motion.div>
   );
 }
@@ -0,0 +1,210 @@
+/**
+ * Custom Hook - Academic Records
+ * Mengelola katalog mata kuliah dan nilai mahasiswa dalam scope aktif
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { ICourse, IEnrollment, LetterGrade } from "@/models/Course";
+import { IStudent } from "@/models/Student";
+import { DataScope, getScopeKey } from "@/models/Workspace";
+import {
+  fetchCourses,
+  fetchEnrollments,
+  insertCourse,
+  deleteCourse,
+  upsertEnrollment,
+  deleteEnrollment,
+} from "@/utils/academicRepository";
+import {
+  AccessContext,
+  canManageCourses,
+  canPerform,
+  getAccessDeniedMessage,
+} from "@/utils/permissions";
+import { validateKodeMK, validateSKS, validateSemester } from "@/utils/validation";
+import { toast } from "@/hooks/use-toast";
+
+export interface EnrollmentInput {
+  courseId: string;
+  semester: number;
+  grade: LetterGrade | null;
+}
+
+function showError(error: unknown, fallback: string) {
+  toast({
+    title: "Error",
+    description: error instanceof Error ? error.message : fallback,
+    variant: "destructive",
+  });
+}
+
+export function useAcademicRecords(scope: DataScope | null, access: AccessContext) {
+  const [courses, setCourses] = useState<ICourse[]>([]);
+  const [enrollments, setEnrollments] = useState<IEnrollment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Nilai berhasil dimuat dari server; selama belum, IPK tersimpan yang ditampilkan
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const scopeKey = scope ? getScopeKey(scope) : null;
+
+  useEffect(() => {
+    if (!scope || !scopeKey) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    setIsLoaded(false);
+    Promise.all([fetchCourses(scope), fetchEnrollments(scope)])
+      .then(([courseResult, enrollmentResult]) => {
+        if (cancelled) return;
+        setCourses(courseResult.data ?? []);
+        setEnrollments(enrollmentResult.data ?? []);
+        setIsLoaded(courseResult.success && enrollmentResult.success);
+        if (!courseResult.success || !enrollmentResult.success) {
+          toast({
+            title: "Error",
+            description: !courseResult.success ? courseResult.message : enrollmentResult.message,
+            variant: "destructive",
+          });
+        }
+      })
+      .catch((error) => console.error("Error loading academic records:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scope, scopeKey]);
+
+  /**
+   * Tambah mata kuliah ke katalog
+   * Time Complexity: O(n) untuk validasi kode unik
+   */
+  const addCourse = useCallback(async (data: Omit<ICourse, "id">): Promise<boolean> => {
+    try {
+      if (!scope) throw new Error("Silakan login terlebih dahulu");
+      if (!canManageCourses(access)) {
+        throw new Error("Anda tidak memiliki akses untuk mengelola mata kuliah");
+      }
+
+      const kodeResult = validateKodeMK(data.kode);
+      if (!kodeResult.isValid) throw new Error(kodeResult.message);
+      if (data.nama.trim().length < 2) throw new Error("Nama mata kuliah minimal 2 karakter");
+      const sksResult = validateSKS(data.sks);
+      if (!sksResult.isValid) throw new Error(sksResult.message);
+      const semesterResult = validateSemester(data.semester);
+      if (!semesterResult.isValid) throw new Error(semesterResult.message);
+
+      const kodeExists = courses.some((c) => c.kode.toLowerCase() === data.kode.toLowerCase());
+      if (kodeExists) throw new Error("Kode mata kuliah sudah terdaftar");
+
+      const result = await insertCourse(
+        { ...data, id: crypto.randomUUID(), kode: data.kode.toUpperCase(), nama: data.nama.trim() },
+        scope
+      );
+      if (!result.success || !result.data) throw new Error(result.message);
+
+      setCourses((prev) => [...prev, result.data!]);
+      toast({
+        title: "Berhasil",
+        description: `Mata kuliah ${result.data.kode} berhasil ditambahkan`,
+      });
+      return true;
+    } catch (error) {
+      showError(error, "Gagal menambah mata kuliah");
+      return false;
+    }
+  }, [scope, access, courses]);
+
+  /**
+   * Hapus mata kuliah beserta seluruh nilai yang terkait
+   */
+  const removeCourse = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      if (!canManageCourses(access)) {
+        throw new Error("Anda tidak memiliki akses untuk mengelola mata kuliah");
+      }
+
+      const result = await deleteCourse(id);
+      if (!result.success) throw new Error(result.message);
+
+      setCourses((prev) => prev.filter((c) => c.id !== id));
+      setEnrollments((prev) => prev.filter((e) => e.courseId !== id));
+      toast({ title: "Berhasil", description: "Mata kuliah berhasil dihapus" });
+      return true;
+    } catch (error) {
+      showError(error, "Gagal menghapus mata kuliah");
+      return false;
+    }
+  }, [access]);
+
+  /**
+   * Simpan pengambilan mata kuliah / nilai seorang mahasiswa
+   * Jika mata kuliah sudah pernah diambil, nilainya diperbarui
+   */
+  const saveEnrollment = useCallback(async (
+    student: IStudent,
+    input: EnrollmentInput
+  ): Promise<boolean> => {
+    try {
+      if (!canPerform(access, "update", student)) {
+        throw new Error(getAccessDeniedMessage("update"));
+      }
+      const semesterResult = validateSemester(input.semester);
+      if (!semesterResult.isValid) throw new Error(semesterResult.message);
+
+      const existing = enrollments.find(
+        (e) => e.studentId === student.id && e.courseId === input.courseId
+      );
+      const result = await upsertEnrollment({
+        id: existing?.id ?? crypto.randomUUID(),
+        studentId: student.id,
+        ...input,
+      });
+      if (!result.success || !result.data) throw new Error(result.message);
+
+      const saved = result.data;
+      setEnrollments((prev) =>
+        existing
+          ? prev.map((e) => (e.id === existing.id ? saved : e))
+          : [...prev, saved]
+      );
+      return true;
+    } catch (error) {
+      showError(error, "Gagal menyimpan nilai");
+      return false;
+    }
+  }, [access, enrollments]);
+
+  const removeEnrollment = useCallback(async (
+    student: IStudent,
+    id: string
+  ): Promise<boolean> => {
+    try {
+      if (!canPerform(access, "update", student)) {
+        throw new Error(getAccessDeniedMessage("update"));
+      }
+
+      const result = await deleteEnrollment(id);
+      if (!result.success) throw new Error(result.message);
+
+      setEnrollments((prev) => prev.filter((e) => e.id !== id));
+      return true;
+    } catch (error) {
+      showError(error, "Gagal menghapus nilai");
+      return false;
+    }
+  }, [access]);
+
+  return {
+    courses,
+    enrollments,
+    isLoading,
+    isLoaded,
+    addCourse,
+    removeCourse,
+    saveEnrollment,
+    removeEnrollment,
+  };
+}
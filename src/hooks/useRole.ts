@@ -0,0 +1,84 @@
+/**
+ * Custom Hook - Role
+ * Memuat peran pengguna dari tabel profiles dan menyediakan helper hak akses
+ */
+
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { AppRole, IProfile } from "@/models/Profile";
+import { IStudent } from "@/models/Student";
+import { AccessContext, StudentAction, canPerform } from "@/utils/permissions";
+
+export function useRole(userId: string | null) {
+  const [role, setRole] = useState<AppRole | null>(null);
+  const [advisors, setAdvisors] = useState<IProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) {
+      setRole(null);
+      setAdvisors([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    supabase
+      .from("profiles")
+      .select("role")
+      .eq("id", userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error("Error loading role:", error);
+        }
+        // Tanpa profil, perlakukan sebagai viewer (paling terbatas)
+        setRole(data?.role ?? "viewer");
+        setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Admin memerlukan daftar dosen wali untuk penugasan perwalian
+  useEffect(() => {
+    if (role !== "admin") {
+      setAdvisors([]);
+      return;
+    }
+
+    supabase
+      .from("profiles")
+      .select("id, full_name, role")
+      .eq("role", "dosen_wali")
+      .order("full_name", { ascending: true })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error loading advisors:", error);
+          return;
+        }
+        setAdvisors(
+          data.map((p) => ({ id: p.id, fullName: p.full_name, role: p.role }))
+        );
+      });
+  }, [role]);
+
+  const access = useMemo<AccessContext>(() => ({ userId, role }), [userId, role]);
+
+  const can = useCallback(
+    (action: StudentAction, student?: IStudent) => canPerform(access, action, student),
+    [access]
+  );
+
+  return {
+    role,
+    advisors,
+    isLoading,
+    access,
+    can,
+  };
+}
@@ -0,0 +1,1170 @@
+/**
+ * Custom Hook - Student Manager
+ * Mengelola state dan operasi CRUD untuk data mahasiswa
+ * Data utama tersimpan di Supabase, IndexedDB (atau localStorage) dipakai sebagai cache offline
+ * Mutasi ke server melewati antrean offline-first dengan pengecekan versi (lihat utils/syncQueue.ts)
+ * Perubahan dari pengguna lain diterima secara realtime dan disorot sesaat di tabel
+ * Data yang dihapus masuk Recycle Bin (soft delete) dan bisa dipulihkan atau di-purge
+ * Semua data dibatasi pada DataScope aktif (akun pribadi atau workspace prodi)
+ * dan setiap mutasi dicek terhadap peran pengguna (lihat utils/permissions.ts)
+ * Setiap mutasi dicatat sebagai command sehingga bisa di-undo/redo; jejak audit per field
+ * ditulis oleh trigger database setelah perubahan tersimpan (lihat utils/auditRepository.ts)
+ * Perubahan yang tersimpan disiarkan ke tab lain; edit bersamaan pada mahasiswa
+ * yang sama menjadi konflik yang dipilih pengguna (lihat utils/tabSync.ts)
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { IStudent, Student } from "@/models/Student";
+import { DataScope, getScopeKey } from "@/models/Workspace";
+import { validateAllFields } from "@/utils/validation";
+import {
+  AccessContext,
+  StudentAction,
+  canPerform,
+  getAccessDeniedMessage,
+} from "@/utils/permissions";
+import { CommandHistory } from "@/utils/commandHistory";
+import { addToQuarantine, exportQuarantine } from "@/utils/fileIO";
+import { QuarantinedRecord } from "@/utils/studentSchema";
+import { getStudentStorage, migrateUnscopedData } from "@/utils/studentStorage";
+import {
+  RemoteChange,
+  SyncChannel,
+  SyncConflict,
+  applyChanges,
+  buildChanges,
+  openSyncChannel,
+  reconcileRemoteChanges,
+} from "@/utils/tabSync";
+import {
+  fetchStudents,
+  fetchDeletedStudents,
+  purgeStudentRecords,
+  subscribeToStudents,
+  PresenceViewer,
+} from "@/utils/studentRepository";
+import { IDeletedStudent } from "@/models/DeletedStudent";
+import {
+  addToRecycleBin,
+  findExpired,
+  getRetentionDays,
+  readRecycleBin,
+  removeFromRecycleBin,
+  setRetentionDays,
+  writeRecycleBin,
+} from "@/utils/recycleBin";
+import {
+  QueueWriteResult,
+  ServerConflict,
+  acceptRemoteVersion,
+  enqueueChanges,
+  flushQueue,
+  pendingChanges,
+  readQueue,
+  refreshVersions,
+  resolveConflictInQueue,
+  seedQueueFromCache,
+  storedConflicts,
+} from "@/utils/syncQueue";
+import { diffStudentFields } from "@/utils/studentDiff";
+import {
+  ImportReport,
+  ImportStrategy,
+  mergeImport,
+  summarizeImportReport,
+} from "@/utils/importMerge";
+import { toast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+
+// Command untuk setiap jenis mutasi, menyimpan data yang cukup untuk dibalik
+export type StudentCommand =
+  | { type: "add"; label: string; student: IStudent }
+  | { type: "update"; label: string; before: IStudent; after: IStudent }
+  | { type: "delete"; label: string; removed: { student: IStudent; index: number }[] }
+  | { type: "import"; label: string; before: IStudent[]; after: IStudent[] }
+  | { type: "batch"; label: string; before: IStudent[]; after: IStudent[] };
+
+type HistoryDirection = "undo" | "redo";
+
+// Lama sorotan baris yang diubah pengguna lain
+const REMOTE_HIGHLIGHT_MS = 4000;
+
+// Hak akses yang dibutuhkan untuk menjalankan command ke arah tertentu
+function getRequiredAction(command: StudentCommand, direction: HistoryDirection): StudentAction {
+  switch (command.type) {
+    case "add":
+      return direction === "redo" ? "create" : "delete";
+    case "delete":
+      return direction === "redo" ? "delete" : "create";
+    case "update":
+    case "batch":
+      return "update";
+    case "import":
+      return "import";
+  }
+}
+
+// Kembalikan data yang dihapus ke posisi semula - O(n + k log k)
+function restoreAtIndices(
+  students: IStudent[],
+  removed: { student: IStudent; index: number }[]
+): IStudent[] {
+  const result = [...students];
+  [...removed]
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ student, index }) => {
+      result.splice(Math.min(index, result.length), 0, student);
+    });
+  return result;
+}
+
+// Keadaan data yang disentuh command sebelum dan sesudah dijalankan ke arah tertentu
+function getTransition(command: StudentCommand, direction: HistoryDirection) {
+  const forward = direction === "redo";
+  let before: IStudent[];
+  let after: IStudent[];
+  switch (command.type) {
+    case "add":
+      [before, after] = [[], [command.student]];
+      break;
+    case "update":
+      [before, after] = [[command.before], [command.after]];
+      break;
+    case "delete":
+      [before, after] = [command.removed.map((r) => r.student), []];
+      break;
+    case "import":
+    case "batch":
+      [before, after] = [command.before, command.after];
+      break;
+  }
+  return forward ? { before, after } : { before: after, after: before };
+}
+
+// Data terkini sama dengan keadaan yang diharapkan (null = tidak ada)
+function matchesCurrent(current: IStudent | null, expected: IStudent | null): boolean {
+  if (!current || !expected) return current === expected;
+  return diffStudentFields(current, expected).length === 0;
+}
+
+/**
+ * Rencanakan undo/redo terhadap data terkini, bukan snapshot saat command dicatat:
+ * hanya baris yang masih sama dengan keadaan yang diharapkan command yang diubah,
+ * baris yang sudah diubah sejak itu (tab lain atau realtime) dilewati
+ * Time Complexity: O(n + k log k)
+ */
+function planTravel(command: StudentCommand, direction: HistoryDirection, current: IStudent[]) {
+  const { before, after } = getTransition(command, direction);
+  const currentById = new Map(current.map((s) => [s.id, s]));
+  const changes: RemoteChange[] = [];
+  const skipped: IStudent[] = [];
+
+  for (const change of buildChanges(before, after)) {
+    const present = currentById.get(change.id) ?? null;
+    if (matchesCurrent(present, change.before)) {
+      changes.push(change);
+    } else if (!matchesCurrent(present, change.after)) {
+      // Yang sudah sesuai tujuan (mis. sudah dipulihkan dari Recycle Bin) tidak perlu diubah
+      skipped.push(present ?? change.before!);
+    }
+  }
+
+  // Data yang muncul kembali ditempatkan di posisi semula bila diketahui
+  const positions = command.type === "delete"
+    ? new Map(command.removed.map((r) => [r.student.id, r.index]))
+    : command.type === "add"
+      ? new Map<string, number>()
+      : new Map(after.map((s, index) => [s.id, index]));
+  const inserted = changes.filter((c) => !c.before && c.after).map((c) => c.after!);
+  const next = restoreAtIndices(
+    applyChanges(current, changes.filter((c) => c.before)),
+    inserted.map((student) => ({ student, index: positions.get(student.id) ?? current.length }))
+  );
+
+  return { next, changes, skipped };
+}
+
+/**
+ * Simpan record yang tidak sesuai skema ke karantina scope dan beri tahu pengguna
+ */
+function reportQuarantine(scopeKey: string, records: QuarantinedRecord[], source: string): void {
+  if (records.length === 0) return;
+  addToQuarantine(scopeKey, records);
+  toast({
+    title: "Data tidak valid dikarantina",
+    description: `${records.length} record ${source} tidak sesuai skema dan tidak dimuat`,
+    variant: "destructive",
+    action: (
+      <ToastAction altText="Unduh" onClick={() => exportQuarantine(scopeKey)}>
+        Unduh
+      </ToastAction>
+    ),
+  });
+}
+
+export function useStudentManager(
+  scope: DataScope | null,
+  access: AccessContext,
+  actorEmail: string | null = null
+) {
+  // State untuk menyimpan array mahasiswa
+  const [students, setStudents] = useState<IStudent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [lastSaved, setLastSaved] = useState<string | null>(null);
+  // Scope yang datanya sedang ada di state; mencegah auto-save ke cache scope lain
+  const [loadedScopeKey, setLoadedScopeKey] = useState<string | null>(null);
+  // Data yang terakhir berhasil ditulis ke cache lokal, sebagai dasar penyimpanan per baris
+  const persistedRef = useRef<{ scopeKey: string; students: IStudent[] } | null>(null);
+
+  // Sinkronisasi antar tab
+  const studentsRef = useRef<IStudent[]>([]);
+  const channelRef = useRef<{ scopeKey: string; channel: SyncChannel } | null>(null);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+
+  // Antrean mutasi ke server
+  const [pendingSync, setPendingSync] = useState(0);
+  const [serverConflicts, setServerConflicts] = useState<ServerConflict[]>([]);
+  const flushStateRef = useRef({ running: false, again: false });
+  const activeScopeKeyRef = useRef<string | null>(null);
+
+  // Kolaborasi realtime: baris yang baru diubah pengguna lain dan siapa yang sedang melihat
+  const [remoteHighlights, setRemoteHighlights] = useState<Set<string>>(new Set());
+  const [viewers, setViewers] = useState<PresenceViewer[]>([]);
+  const highlightTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  // Recycle Bin (soft delete)
+  const [recycleBin, setRecycleBin] = useState<IDeletedStudent[]>([]);
+  const [retentionDays, setRetentionDaysState] = useState(0);
+
+  // Riwayat undo/redo
+  const historyRef = useRef(new CommandHistory<StudentCommand>());
+  const [historyState, setHistoryState] = useState({
+    canUndo: false,
+    canRedo: false,
+    undoLabel: null as string | null,
+    redoLabel: null as string | null,
+  });
+  const undoRef = useRef<() => void>(() => {});
+
+  const scopeKey = scope ? getScopeKey(scope) : null;
+
+  const refreshHistory = useCallback(() => {
+    const history = historyRef.current;
+    setHistoryState({
+      canUndo: history.canUndo,
+      canRedo: history.canRedo,
+      undoLabel: history.nextUndo?.label ?? null,
+      redoLabel: history.nextRedo?.label ?? null,
+    });
+  }, []);
+
+  // Catat command baru dan tampilkan toast dengan tombol Undo
+  const record = useCallback((command: StudentCommand, description: string) => {
+    historyRef.current.push(command);
+    refreshHistory();
+    toast({
+      title: "Berhasil",
+      description,
+      action: (
+        <ToastAction altText="Undo" onClick={() => undoRef.current()}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  }, [refreshHistory]);
+
+  /**
+   * Kirim antrean mutasi ke server; permintaan saat pengiriman berjalan
+   * dijalankan ulang setelahnya
+   */
+  const flush = useCallback(async () => {
+    if (!scope || !scopeKey) return;
+    const state = flushStateRef.current;
+    if (state.running) {
+      state.again = true;
+      return;
+    }
+
+    state.running = true;
+    try {
+      do {
+        state.again = false;
+        const result = await flushQueue(scope, scopeKey);
+        // Scope sudah berganti; hasil pengiriman tidak berlaku untuk state saat ini
+        if (activeScopeKeyRef.current !== scopeKey) return;
+
+        setPendingSync(result.remaining);
+        if (result.merged.length > 0) {
+          setStudents((prev) =>
+            applyChanges(prev, result.merged.map((s) => ({ id: s.id, before: null, after: s })))
+          );
+        }
+        if (result.conflicts.length > 0) {
+          const ids = new Set(result.conflicts.map((c) => c.studentId));
+          setServerConflicts((prev) => [...prev.filter((c) => !ids.has(c.studentId)), ...result.conflicts]);
+        }
+        if (result.failed.length > 0) {
+          toast({
+            title: "Belum tersinkron",
+            description: `${result.failed.length} perubahan ditolak server dan akan dicoba lagi: ${result.failed[0]}`,
+            variant: "destructive",
+          });
+        }
+        if (result.offline) break;
+      } while (state.again);
+    } catch (error) {
+      console.error("Error syncing data:", error);
+      toast({
+        title: "Sinkronisasi terhenti",
+        description: error instanceof Error ? error.message : "Antrean sinkronisasi tidak bisa diperbarui",
+        variant: "destructive",
+      });
+    } finally {
+      state.running = false;
+    }
+  }, [scope, scopeKey]);
+
+  // Ubah Recycle Bin lokal scope aktif (dibaca ulang karena dipakai bersama antar tab)
+  const updateRecycleBin = useCallback((update: (bin: IDeletedStudent[]) => IDeletedStudent[]) => {
+    if (!scopeKey) return;
+    const next = update(readRecycleBin(scopeKey));
+    writeRecycleBin(scopeKey, next);
+    setRecycleBin(next);
+  }, [scopeKey]);
+
+  // Tampilkan jumlah antrean; antrean yang gagal ditulis ditampilkan sebagai toast
+  const reportQueue = useCallback((result: QueueWriteResult) => {
+    setPendingSync(result.queue.length);
+    if (!result.success) {
+      toast({
+        title: "Perubahan belum masuk antrean server",
+        description: result.message,
+        variant: "destructive",
+      });
+    }
+  }, []);
+
+  // Catat perubahan ke antrean server lalu coba kirim
+  // Data yang hilang masuk Recycle Bin, data yang muncul kembali keluar darinya
+  const queueSync = useCallback((changes: RemoteChange[]) => {
+    if (!scopeKey || changes.length === 0) return;
+    enqueueChanges(scopeKey, changes).then((result) => {
+      reportQueue(result);
+      flush();
+    });
+
+    const removed = changes.filter((c) => c.before && !c.after).map((c) => c.before!);
+    const restored = changes.filter((c) => !c.before && c.after).map((c) => c.id);
+    if (removed.length > 0 || restored.length > 0) {
+      updateRecycleBin((bin) => addToRecycleBin(removeFromRecycleBin(bin, restored), removed, actorEmail));
+    }
+  }, [scopeKey, flush, reportQueue, updateRecycleBin, actorEmail]);
+
+  /**
+   * Hapus permanen data di Recycle Bin
+   * Data yang penghapusannya belum terkirim ke server dilewati
+   */
+  const purgeIds = useCallback(async (ids: string[]): Promise<number> => {
+    if (!scopeKey) return 0;
+    const pending = new Set((await readQueue(scopeKey)).map((entry) => entry.studentId));
+    const purgeable = ids.filter((id) => !pending.has(id));
+    if (purgeable.length === 0) return 0;
+
+    const result = await purgeStudentRecords(purgeable);
+    if (!result.success) {
+      toast({ title: "Gagal menghapus permanen", description: result.message, variant: "destructive" });
+      return 0;
+    }
+    updateRecycleBin((bin) => removeFromRecycleBin(bin, purgeable));
+    return purgeable.length;
+  }, [scopeKey, updateRecycleBin]);
+
+  /**
+   * Muat Recycle Bin dari server, lalu purge otomatis data yang melewati masa retensi
+   * Time Complexity: O(n)
+   */
+  const refreshRecycleBin = useCallback(async () => {
+    if (!scope || !scopeKey) return;
+    const result = await fetchDeletedStudents(scope);
+    if (activeScopeKeyRef.current !== scopeKey) return;
+
+    if (result.success && result.data) {
+      // Penghapusan yang belum terkirim hanya ada di salinan lokal
+      const pendingDeletes = new Set(
+        (await readQueue(scopeKey)).filter((entry) => entry.type === "delete").map((entry) => entry.studentId)
+      );
+      const serverIds = new Set(result.data.map((entry) => entry.student.id));
+      const localOnly = readRecycleBin(scopeKey).filter(
+        (entry) => pendingDeletes.has(entry.student.id) && !serverIds.has(entry.student.id)
+      );
+      updateRecycleBin(() => [...localOnly, ...result.data!]);
+    }
+
+    if (!canPerform(access, "delete")) return;
+    const expired = findExpired(readRecycleBin(scopeKey), getRetentionDays(scopeKey));
+    const purged = await purgeIds(expired.map((entry) => entry.student.id));
+    if (purged > 0) {
+      toast({
+        title: "Recycle Bin dibersihkan",
+        description: `${purged} data melewati masa simpan dan dihapus permanen`,
+      });
+    }
+  }, [scope, scopeKey, access, updateRecycleBin, purgeIds]);
+
+  /**
+   * Pulihkan data dari Recycle Bin; NIM yang sudah dipakai data aktif dilewati
+   * Time Complexity: O(n + k)
+   */
+  const restoreFromBin = useCallback((ids: string[]): boolean => {
+    if (!scope) return false;
+    if (!canPerform(access, "create")) {
+      toast({ title: "Error", description: getAccessDeniedMessage("create"), variant: "destructive" });
+      return false;
+    }
+
+    const idsSet = new Set(ids);
+    const usedNims = new Set(students.map((s) => s.nim.toLowerCase()));
+    const restorable: IStudent[] = [];
+    const skipped: IStudent[] = [];
+    recycleBin
+      .filter((entry) => idsSet.has(entry.student.id))
+      .forEach(({ student }) => {
+        if (usedNims.has(student.nim.toLowerCase())) {
+          skipped.push(student);
+        } else {
+          usedNims.add(student.nim.toLowerCase());
+          restorable.push(student);
+        }
+      });
+
+    if (restorable.length > 0) {
+      setStudents((prev) => [...prev, ...restorable]);
+      queueSync(restorable.map((s) => ({ id: s.id, before: null, after: s })));
+    }
+
+    toast({
+      title: restorable.length > 0 ? "Berhasil" : "Tidak ada yang dipulihkan",
+      description: [
+        restorable.length > 0 && `${restorable.length} mahasiswa dipulihkan`,
+        skipped.length > 0 && `${skipped.length} dilewati karena NIM sudah dipakai (${skipped.map((s) => s.nim).join(", ")})`,
+      ].filter(Boolean).join(". "),
+      variant: restorable.length > 0 ? "default" : "destructive",
+    });
+    return restorable.length > 0;
+  }, [students, recycleBin, scope, access, queueSync]);
+
+  /**
+   * Hapus permanen data terpilih dari Recycle Bin
+   */
+  const purgeFromBin = useCallback(async (ids: string[]): Promise<boolean> => {
+    if (!canPerform(access, "delete")) {
+      toast({ title: "Error", description: getAccessDeniedMessage("delete"), variant: "destructive" });
+      return false;
+    }
+    const purged = await purgeIds(ids);
+    if (purged < ids.length) {
+      toast({
+        title: "Sebagian belum dihapus",
+        description: "Penghapusan yang belum tersinkron ke server tidak bisa di-purge. Coba lagi setelah online.",
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: "Berhasil", description: `${purged} data dihapus permanen` });
+    }
+    return purged > 0;
+  }, [access, purgeIds]);
+
+  // Atur masa simpan Recycle Bin scope aktif; data yang sudah lewat langsung di-purge
+  const changeRetention = useCallback((days: number) => {
+    if (!scopeKey) return;
+    setRetentionDays(scopeKey, days);
+    setRetentionDaysState(days);
+    refreshRecycleBin();
+  }, [scopeKey, refreshRecycleBin]);
+
+  useEffect(() => {
+    activeScopeKeyRef.current = scopeKey;
+  }, [scopeKey]);
+
+  // Kirim ulang antrean saat koneksi kembali
+  useEffect(() => {
+    window.addEventListener("online", flush);
+    return () => window.removeEventListener("online", flush);
+  }, [flush]);
+
+  // Load data dari cache lokal (IndexedDB/localStorage), lalu segarkan dari server
+  useEffect(() => {
+    if (!scope || !scopeKey) return;
+    let cancelled = false;
+    let cached: IStudent[] = [];
+
+    // Riwayat dan konflik antar tab berlaku per scope
+    historyRef.current.clear();
+    refreshHistory();
+    setSyncConflicts([]);
+    setServerConflicts([]);
+    // Konflik server yang belum diselesaikan sebelum reload tetap tersimpan di antrean
+    readQueue(scopeKey).then((queue) => {
+      if (cancelled) return;
+      setPendingSync(queue.length);
+      setServerConflicts(storedConflicts(queue));
+    });
+    setRecycleBin(readRecycleBin(scopeKey));
+    setRetentionDaysState(getRetentionDays(scopeKey));
+
+    setIsLoading(true);
+    getStudentStorage()
+      .then(async (storage) => {
+        // Data versi lama (tanpa scope) menjadi milik scope pribadi pengguna
+        await migrateUnscopedData(storage, getScopeKey({ userId: scope.userId, workspaceId: null }));
+        return storage.load(scopeKey);
+      })
+      .then((result) => {
+        if (cancelled) return;
+        if (!result.success) {
+          toast({
+            title: "Cache lokal tidak terbaca",
+            description: result.message,
+            variant: "destructive",
+          });
+        }
+        reportQuarantine(scopeKey, result.quarantined ?? [], "di cache lokal");
+        cached = result.success && result.data ? result.data : [];
+        persistedRef.current = result.success ? { scopeKey, students: cached } : null;
+        setStudents(cached);
+        setLastSaved(result.success ? result.timestamp || null : null);
+        setLoadedScopeKey(scopeKey);
+      })
+      .catch((error) => {
+        console.error("Error loading data:", error);
+        toast({
+          title: "Error",
+          description: "Gagal memuat data mahasiswa",
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (cancelled) return;
+        setIsLoading(false);
+
+        fetchStudents(scope)
+          .then(async (result) => {
+            if (cancelled) return;
+            if (result.success && result.data) {
+              // Perubahan yang belum terkirim (termasuk cache yang belum pernah diunggah)
+              // tetap ditampilkan di atas data server
+              const seeded = await seedQueueFromCache(scopeKey, cached, result.data);
+              await refreshVersions(scopeKey, result.versions ?? {});
+              if (cancelled) return;
+              reportQueue(seeded);
+              reportQuarantine(scopeKey, result.quarantined ?? [], "dari server");
+              setStudents(applyChanges(result.data, pendingChanges(seeded.queue)));
+              flush();
+              refreshRecycleBin();
+            } else {
+              toast({
+                title: "Mode offline",
+                description: `${result.message}. Menampilkan data dari cache lokal.`,
+                variant: "destructive",
+              });
+            }
+          })
+          .catch((error) => console.error("Error fetching data:", error));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scope, scopeKey, refreshHistory, flush, reportQueue, refreshRecycleBin]);
+
+  useEffect(() => {
+    studentsRef.current = students;
+  }, [students]);
+
+  /**
+   * Tulis data ke cache lokal lalu siarkan perubahan per baris ke tab lain
+   * previous null berarti tulis ulang seluruh data scope (tanpa siaran)
+   */
+  const persist = useCallback((key: string, next: IStudent[], previous: IStudent[] | null) => {
+    persistedRef.current = { scopeKey: key, students: next };
+
+    getStudentStorage()
+      .then((storage) => storage.save(key, next, previous))
+      .then((result) => {
+        if (result.success && result.timestamp) {
+          setLastSaved(result.timestamp);
+          const channel = channelRef.current;
+          if (previous && channel?.scopeKey === key) {
+            const changes = buildChanges(previous, next);
+            if (changes.length > 0) channel.channel.post(changes);
+          }
+        } else {
+          // Penyimpanan berikutnya menulis ulang seluruh data scope
+          persistedRef.current = null;
+          console.error("Error saving data:", result.message);
+        }
+      });
+  }, []);
+
+  // Auto-save ke cache lokal saat data berubah; hanya baris yang berubah yang ditulis
+  useEffect(() => {
+    if (isLoading || !scopeKey || loadedScopeKey !== scopeKey) return;
+
+    const persisted = persistedRef.current;
+    const previous = persisted?.scopeKey === scopeKey ? persisted.students : null;
+    if (previous === students) return;
+    persist(scopeKey, students, previous);
+  }, [students, isLoading, scopeKey, loadedScopeKey, persist]);
+
+  // Terima perubahan dari tab lain untuk scope yang sama
+  useEffect(() => {
+    if (!scopeKey || loadedScopeKey !== scopeKey) return;
+
+    const channel = openSyncChannel(scopeKey, ({ changes }) => {
+      const { data, applied, conflicts } = reconcileRemoteChanges(studentsRef.current, changes);
+
+      // Cache lokal sudah ditulis tab lain; baris yang konflik tetap dianggap versi lokal
+      // agar tidak tertimpa auto-save sebelum pengguna memilih
+      const persisted = persistedRef.current;
+      if (persisted?.scopeKey === scopeKey) {
+        const kept: RemoteChange[] = conflicts.map((c) => ({ id: c.id, before: c.remote, after: c.local }));
+        persistedRef.current = {
+          scopeKey,
+          students: applyChanges(persisted.students, [...applied, ...kept]),
+        };
+      }
+
+      if (applied.length > 0) {
+        studentsRef.current = data;
+        setStudents(data);
+        toast({
+          title: "Data diperbarui",
+          description: `${applied.length} perubahan diterima dari tab lain`,
+        });
+      }
+      if (conflicts.length > 0) {
+        const ids = new Set(conflicts.map((c) => c.id));
+        setSyncConflicts((prev) => [...prev.filter((c) => !ids.has(c.id)), ...conflicts]);
+      }
+    });
+    channelRef.current = { scopeKey, channel };
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [scopeKey, loadedScopeKey]);
+
+  // Sorot baris selama beberapa detik
+  const highlight = useCallback((id: string) => {
+    const timers = highlightTimersRef.current;
+    clearTimeout(timers.get(id));
+    setRemoteHighlights((prev) => new Set(prev).add(id));
+    timers.set(id, setTimeout(() => {
+      timers.delete(id);
+      setRemoteHighlights((prev) => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }, REMOTE_HIGHLIGHT_MS));
+  }, []);
+
+  // Terima insert/update/delete dari server secara realtime
+  useEffect(() => {
+    if (!scope || !scopeKey || loadedScopeKey !== scopeKey) return;
+    const timers = highlightTimersRef.current;
+    let closed = false;
+
+    const applyRemote = (id: string, after: IStudent | null) => {
+      const next = applyChanges(studentsRef.current, [{ id, before: null, after }]);
+      studentsRef.current = next;
+      setStudents(next);
+    };
+
+    const unsubscribe = subscribeToStudents(scope, { userId: scope.userId, email: actorEmail }, {
+      onUpsert: async ({ student, version }) => {
+        // Langganan bisa sudah ditutup selama versi dicatat
+        if (!(await acceptRemoteVersion(scopeKey, student.id, version)) || closed) return;
+        const current = studentsRef.current.find((s) => s.id === student.id);
+        // Gema dari perubahan sendiri tidak mengubah apa pun
+        if (current && diffStudentFields(current, student).length === 0) return;
+        applyRemote(student.id, student);
+        highlight(student.id);
+      },
+      onDelete: async (id) => {
+        if (!studentsRef.current.some((s) => s.id === id)) return;
+        if (!(await acceptRemoteVersion(scopeKey, id, null)) || closed) return;
+        applyRemote(id, null);
+      },
+      onQuarantine: (records) => reportQuarantine(scopeKey, records, "dari server"),
+      onPresence: setViewers,
+    });
+
+    return () => {
+      closed = true;
+      unsubscribe();
+      setViewers([]);
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+      setRemoteHighlights(new Set());
+    };
+  }, [scope, scopeKey, loadedScopeKey, actorEmail, highlight]);
+
+  /**
+   * Selesaikan konflik antar tab: pertahankan versi lokal atau pakai versi tab lain
+   * Time Complexity: O(n)
+   */
+  const resolveSyncConflict = useCallback((id: string, choice: "local" | "remote") => {
+    const conflict = syncConflicts.find((c) => c.id === id);
+    if (!conflict || !scope || !scopeKey) return;
+    setSyncConflicts((prev) => prev.filter((c) => c.id !== id));
+
+    const remoteChange: RemoteChange = { id, before: conflict.local, after: conflict.remote };
+    const persisted = persistedRef.current;
+    const persistedWithRemote = persisted?.scopeKey === scopeKey
+      ? applyChanges(persisted.students, [remoteChange])
+      : null;
+
+    if (choice === "remote") {
+      const next = applyChanges(studentsRef.current, [remoteChange]);
+      if (persistedWithRemote) persistedRef.current = { scopeKey, students: persistedWithRemote };
+      studentsRef.current = next;
+      setStudents(next);
+      return;
+    }
+
+    // Cache lokal dan tab lain masih berisi versi tab lain; tulis ulang versi lokal
+    const local = studentsRef.current.find((s) => s.id === id) ?? null;
+    persist(scopeKey, studentsRef.current, persistedWithRemote);
+    queueSync([{ id, before: conflict.remote, after: local }]);
+  }, [syncConflicts, scope, scopeKey, persist, queueSync]);
+
+  /**
+   * Selesaikan konflik dengan server: resolved adalah versi akhir hasil pilihan
+   * per field, atau null untuk menghapus
+   * Time Complexity: O(n)
+   */
+  const resolveServerConflict = useCallback((studentId: string, resolved: IStudent | null) => {
+    const conflict = serverConflicts.find((c) => c.studentId === studentId);
+    if (!conflict || !scopeKey) return;
+    setServerConflicts((prev) => prev.filter((c) => c.studentId !== studentId));
+
+    setStudents((prev) => applyChanges(prev, [{ id: studentId, before: null, after: resolved }]));
+    resolveConflictInQueue(scopeKey, conflict, resolved).then((result) => {
+      reportQueue(result);
+      flush();
+    });
+  }, [serverConflicts, scopeKey, flush, reportQueue]);
+
+  /**
+   * Tambah mahasiswa baru
+   * Time Complexity: O(1) untuk push, O(n) untuk validasi NIM unik
+   */
+  const addStudent = useCallback((data: Omit<IStudent, "id">): boolean => {
+    try {
+      if (!scope) throw new Error("Silakan login terlebih dahulu");
+      if (!canPerform(access, "create")) throw new Error(getAccessDeniedMessage("create"));
+      if (data.dosenWaliId && !canPerform(access, "assign")) {
+        throw new Error(getAccessDeniedMessage("assign"));
+      }
+
+      // Validasi input
+      const validation = validateAllFields({
+        nim: data.nim,
+        nama: data.nama,
+        email: data.email,
+        jurusan: data.jurusan,
+        semester: data.semester,
+        ipk: data.ipk,
+      });
+
+      if (!validation.isValid) {
+        const firstError = Object.values(validation.errors)[0];
+        throw new Error(firstError);
+      }
+
+      // Cek NIM unik - O(n)
+      const nimExists = students.some(
+        (s) => s.nim.toLowerCase() === data.nim.toLowerCase()
+      );
+      if (nimExists) {
+        throw new Error("NIM sudah terdaftar");
+      }
+
+      // Buat objek Student baru
+      const newStudent = new Student({
+        ...data,
+        id: crypto.randomUUID(),
+        nim: data.nim.toUpperCase(),
+      });
+
+      // Tambah ke array - O(1)
+      const added = newStudent.toJSON();
+      setStudents((prev) => [...prev, added]);
+      queueSync([{ id: added.id, before: null, after: added }]);
+
+      record(
+        { type: "add", label: `Tambah ${added.nama}`, student: added },
+        `Mahasiswa ${data.nama} berhasil ditambahkan`
+      );
+
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Gagal menambah data",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [students, scope, access, record, queueSync]);
+
+  /**
+   * Edit data mahasiswa
+   * Time Complexity: O(n) untuk mencari dan update
+   */
+  const updateStudent = useCallback((id: string, data: Partial<IStudent>): boolean => {
+    try {
+      const currentStudent = students.find((s) => s.id === id);
+      if (!currentStudent) throw new Error("Mahasiswa tidak ditemukan");
+
+      if (!canPerform(access, "update", currentStudent)) {
+        throw new Error(getAccessDeniedMessage("update"));
+      }
+      if (
+        data.dosenWaliId !== undefined &&
+        (data.dosenWaliId ?? null) !== (currentStudent.dosenWaliId ?? null) &&
+        !canPerform(access, "assign")
+      ) {
+        throw new Error(getAccessDeniedMessage("assign"));
+      }
+
+      // Validasi jika ada perubahan
+      if (data.nim || data.nama || data.email || data.jurusan || data.semester !== undefined || data.ipk !== undefined) {
+        const updatedData = { ...currentStudent, ...data };
+        const validation = validateAllFields({
+          nim: updatedData.nim,
+          nama: updatedData.nama,
+          email: updatedData.email,
+          jurusan: updatedData.jurusan,
+          semester: updatedData.semester,
+          ipk: updatedData.ipk,
+        });
+
+        if (!validation.isValid) {
+          const firstError = Object.values(validation.errors)[0];
+          throw new Error(firstError);
+        }
+
+        // Cek NIM unik jika berubah
+        if (data.nim && data.nim !== currentStudent.nim) {
+          const nimExists = students.some(
+            (s) => s.id !== id && s.nim.toLowerCase() === data.nim!.toLowerCase()
+          );
+          if (nimExists) {
+            throw new Error("NIM sudah terdaftar");
+          }
+        }
+      }
+
+      // Update data - O(n)
+      const changes = data.nim ? { ...data, nim: data.nim.toUpperCase() } : data;
+      const updated = { ...currentStudent, ...changes };
+      setStudents((prev) =>
+        prev.map((s) => (s.id === id ? { ...s, ...changes } : s))
+      );
+      queueSync([{ id, before: currentStudent, after: updated }]);
+
+      record(
+        { type: "update", label: `Edit ${currentStudent.nama}`, before: currentStudent, after: updated },
+        "Data mahasiswa berhasil diperbarui"
+      );
+
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Gagal memperbarui data",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [students, access, record, queueSync]);
+
+  /**
+   * Hapus mahasiswa
+   * Time Complexity: O(n) untuk filter
+   */
+  const deleteStudent = useCallback((id: string): boolean => {
+    try {
+      const studentToDelete = students.find((s) => s.id === id);
+      if (!studentToDelete) {
+        throw new Error("Mahasiswa tidak ditemukan");
+      }
+      if (!canPerform(access, "delete", studentToDelete)) {
+        throw new Error(getAccessDeniedMessage("delete"));
+      }
+
+      // Filter out - O(n)
+      const index = students.indexOf(studentToDelete);
+      setStudents((prev) => prev.filter((s) => s.id !== id));
+      queueSync([{ id, before: studentToDelete, after: null }]);
+
+      record(
+        {
+          type: "delete",
+          label: `Hapus ${studentToDelete.nama}`,
+          removed: [{ student: studentToDelete, index }],
+        },
+        `Mahasiswa ${studentToDelete.nama} dipindahkan ke Recycle Bin`
+      );
+
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Gagal menghapus data",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [students, access, record, queueSync]);
+
+  /**
+   * Hapus banyak mahasiswa
+   * Time Complexity: O(n)
+   */
+  const deleteMultiple = useCallback((ids: string[]): boolean => {
+    try {
+      if (!canPerform(access, "delete")) throw new Error(getAccessDeniedMessage("delete"));
+
+      const idsSet = new Set(ids);
+      const removed = students
+        .map((student, index) => ({ student, index }))
+        .filter(({ student }) => idsSet.has(student.id));
+      setStudents((prev) => prev.filter((s) => !idsSet.has(s.id)));
+      queueSync(removed.map(({ student }) => ({ id: student.id, before: student, after: null })));
+
+      record(
+        { type: "delete", label: `Hapus ${removed.length} mahasiswa`, removed },
+        `${removed.length} mahasiswa dipindahkan ke Recycle Bin`
+      );
+
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Gagal menghapus data",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [students, access, record, queueSync]);
+
+  /**
+   * Ubah banyak mahasiswa sekaligus sebagai satu command
+   * Fungsi update mengembalikan null untuk mahasiswa yang dilewati
+   * Time Complexity: O(n + k)
+   */
+  const updateMultiple = useCallback((
+    ids: string[],
+    update: (student: IStudent) => Partial<IStudent> | null,
+    label: string
+  ): boolean => {
+    try {
+      const idsSet = new Set(ids);
+      const targets = students.filter((s) => idsSet.has(s.id));
+      if (targets.length === 0) throw new Error("Tidak ada mahasiswa yang dipilih");
+      if (!targets.every((s) => canPerform(access, "update", s))) {
+        throw new Error(getAccessDeniedMessage("update"));
+      }
+
+      const before: IStudent[] = [];
+      const after: IStudent[] = [];
+      for (const student of targets) {
+        const changes = update(student);
+        if (!changes) continue;
+        const updated = { ...student, ...changes };
+        const validation = validateAllFields({
+          nim: updated.nim,
+          nama: updated.nama,
+          email: updated.email,
+          jurusan: updated.jurusan,
+          semester: updated.semester,
+          ipk: updated.ipk,
+        });
+        if (!validation.isValid) {
+          throw new Error(`${student.nama}: ${Object.values(validation.errors)[0]}`);
+        }
+        if (diffStudentFields(student, updated).length === 0) continue;
+        before.push(student);
+        after.push(updated);
+      }
+
+      const skipped = targets.length - after.length;
+      if (after.length === 0) {
+        toast({ title: "Tidak ada perubahan", description: `${skipped} mahasiswa dilewati` });
+        return false;
+      }
+
+      const updatedMap = new Map(after.map((s) => [s.id, s]));
+      setStudents((prev) => prev.map((s) => updatedMap.get(s.id) ?? s));
+      queueSync(buildChanges(before, after));
+
+      record(
+        { type: "batch", label, before, after },
+        `${after.length} mahasiswa diperbarui${skipped > 0 ? `, ${skipped} dilewati` : ""}`
+      );
+
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Gagal memperbarui data",
+        variant: "destructive",
+      });
+      return false;
+    }
+  }, [students, access, record, queueSync]);
+
+  /**
+   * Ganti seluruh dataset (import atau pemulihan snapshot) sebagai satu command
+   */
+  const replaceAll = useCallback((data: IStudent[], label: string, description: string): boolean => {
+    if (!scope) return false;
+    if (!canPerform(access, "import")) {
+      toast({
+        title: "Error",
+        description: getAccessDeniedMessage("import"),
+        variant: "destructive",
+      });
+      return false;
+    }
+    setStudents(data);
+    queueSync(buildChanges(students, data));
+    record({ type: "import", label, before: students, after: data }, description);
+    return true;
+  }, [students, scope, access, record, queueSync]);
+
+  /**
+   * Import data dengan strategi penggabungan (replace, append, upsert, skip)
+   * Time Complexity: O(n + m)
+   */
+  const importStudents = useCallback((
+    data: Partial<IStudent>[],
+    strategy: ImportStrategy
+  ): ImportReport | null => {
+    const { data: merged, report } = mergeImport(students, data, strategy);
+    const summary = summarizeImportReport(report);
+
+    if (report.added.length + report.updated.length + report.removed.length === 0) {
+      toast({ title: "Tidak ada perubahan", description: summary });
+      return report;
+    }
+
+    const applied = replaceAll(merged, `Import ${data.length} data`, `Import selesai: ${summary}`);
+    return applied ? report : null;
+  }, [students, replaceAll]);
+
+  /**
+   * Pulihkan data dari snapshot berversi
+   */
+  const restoreSnapshot = useCallback((data: IStudent[], timestamp: string): boolean => {
+    const when = new Date(timestamp).toLocaleString("id-ID");
+    return replaceAll(data, `Pulihkan snapshot ${when}`, `Data dipulihkan ke versi ${when}`);
+  }, [replaceAll]);
+
+  /**
+   * Jalankan command ke arah undo atau redo
+   * Tidak ada validasi ulang karena data sudah valid saat command dibuat
+   */
+  // Terapkan command ke data terkini; mengembalikan mahasiswa yang dilewati
+  const applyCommand = useCallback((command: StudentCommand, direction: HistoryDirection): IStudent[] => {
+    if (!scope) return [];
+    const { next, changes, skipped } = planTravel(command, direction, studentsRef.current);
+    studentsRef.current = next;
+    setStudents(next);
+    queueSync(changes);
+    return skipped;
+  }, [scope, queueSync]);
+
+  const travel = useCallback((direction: HistoryDirection) => {
+    const history = historyRef.current;
+    const command = direction === "undo" ? history.nextUndo : history.nextRedo;
+    if (!command) return;
+
+    const action = getRequiredAction(command, direction);
+    const subjects =
+      command.type === "update" ? [command.before] : command.type === "batch" ? command.before : [undefined];
+    if (!subjects.every((subject) => canPerform(access, action, subject))) {
+      toast({
+        title: "Error",
+        description: getAccessDeniedMessage(action),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (direction === "undo") history.undo();
+    else history.redo();
+    const skipped = applyCommand(command, direction);
+    refreshHistory();
+
+    if (skipped.length > 0) {
+      toast({
+        title: direction === "undo" ? "Sebagian tidak dibatalkan" : "Sebagian tidak diulangi",
+        description: `${command.label}. ${skipped.length} mahasiswa sudah berubah sejak itu dan dilewati: ${skipped
+          .map((s) => s.nama)
+          .join(", ")}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({
+      title: direction === "undo" ? "Dibatalkan" : "Diulangi",
+      description: command.label,
+    });
+  }, [access, applyCommand, refreshHistory]);
+
+  /**
+   * Undo / Redo
+   * Time Complexity: O(1) untuk stack, O(n) untuk menerapkan perubahan ke state
+   */
+  const undo = useCallback(() => travel("undo"), [travel]);
+  const redo = useCallback(() => travel("redo"), [travel]);
+
+  useEffect(() => {
+    undoRef.current = undo;
+  }, [undo]);
+
+  return {
+    students,
+    isLoading,
+    lastSaved,
+    addStudent,
+    updateStudent,
+    deleteStudent,
+    deleteMultiple,
+    updateMultiple,
+    importStudents,
+    restoreSnapshot,
+    syncConflicts,
+    resolveSyncConflict,
+    pendingSync,
+    serverConflicts,
+    resolveServerConflict,
+    remoteHighlights,
+    viewers,
+    recycleBin,
+    retentionDays,
+    changeRetention,
+    refreshRecycleBin,
+    restoreFromBin,
+    purgeFromBin,
+    setStudents,
+    undo,
+    redo,
+    ...historyState,
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Custom Hook - Workspace
+ * Menentukan cakupan data aktif: data pribadi atau workspace prodi bersama
+ */
+
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { DataScope, IWorkspace } from "@/models/Workspace";
+
+const SELECTED_WORKSPACE_KEY = "student-app-workspace";
+
+export function useWorkspace(userId: string | null) {
+  const [workspaces, setWorkspaces] = useState<IWorkspace[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+
+  // Muat daftar workspace dan pilihan terakhir milik pengguna
+  useEffect(() => {
+    if (!userId) {
+      setWorkspaces([]);
+      setWorkspaceId(null);
+      return;
+    }
+
+    const storedId = localStorage.getItem(`${SELECTED_WORKSPACE_KEY}:${userId}`);
+    setWorkspaceId(storedId);
+
+    supabase
+      .from("workspaces")
+      .select("id, nama")
+      .order("nama", { ascending: true })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error loading workspaces:", error);
+          return;
+        }
+        setWorkspaces(data);
+        // Pilihan lama tidak valid lagi (keanggotaan dicabut)
+        if (storedId && !data.some((w) => w.id === storedId)) {
+          setWorkspaceId(null);
+          localStorage.removeItem(`${SELECTED_WORKSPACE_KEY}:${userId}`);
+        }
+      });
+  }, [userId]);
+
+  const selectWorkspace = useCallback((id: string | null) => {
+    if (!userId) return;
+    setWorkspaceId(id);
+    if (id) {
+      localStorage.setItem(`${SELECTED_WORKSPACE_KEY}:${userId}`, id);
+    } else {
+      localStorage.removeItem(`${SELECTED_WORKSPACE_KEY}:${userId}`);
+    }
+  }, [userId]);
+
+  const scope = useMemo<DataScope | null>(
+    () => (userId ? { userId, workspaceId } : null),
+    [userId, workspaceId]
+  );
+
+  return {
+    workspaces,
+    workspaceId,
+    selectWorkspace,
+    scope,
+  };
+}
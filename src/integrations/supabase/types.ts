@@ -14,16 +14,308 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      audit_log: {
+        Row: {
+          action: Database["public"]["Enums"]["audit_action"]
+          actor_email: string | null
+          actor_id: string
+          created_at: string
+          field: string
+          id: string
+          new_value: Json | null
+          old_value: Json | null
+          student_id: string
+          student_nama: string
+          student_nim: string
+          workspace_id: string | null
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["audit_action"]
+          actor_email?: string | null
+          actor_id?: string
+          created_at?: string
+          field: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          student_id: string
+          student_nama: string
+          student_nim: string
+          workspace_id?: string | null
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["audit_action"]
+          actor_email?: string | null
+          actor_id?: string
+          created_at?: string
+          field?: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          student_id?: string
+          student_nama?: string
+          student_nim?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      courses: {
+        Row: {
+          created_at: string
+          id: string
+          kode: string
+          nama: string
+          semester: number
+          sks: number
+          user_id: string
+          workspace_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kode: string
+          nama: string
+          semester: number
+          sks: number
+          user_id?: string
+          workspace_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kode?: string
+          nama?: string
+          semester?: number
+          sks?: number
+          user_id?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "courses_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      enrollments: {
+        Row: {
+          course_id: string
+          created_at: string
+          grade: Database["public"]["Enums"]["letter_grade"] | null
+          id: string
+          semester: number
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          grade?: Database["public"]["Enums"]["letter_grade"] | null
+          id?: string
+          semester: number
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          grade?: Database["public"]["Enums"]["letter_grade"] | null
+          id?: string
+          semester?: number
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollments_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          full_name: string | null
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          created_at?: string
+          full_name?: string | null
+          id: string
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          created_at?: string
+          full_name?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
+      students: {
+        Row: {
+          created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
+          deleted_by_email: string | null
+          dosen_wali_id: string | null
+          email: string
+          id: string
+          ipk: number
+          jurusan: string
+          nama: string
+          nim: string
+          semester: number
+          tanggal_masuk: string
+          updated_at: string
+          user_id: string
+          workspace_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          deleted_by_email?: string | null
+          dosen_wali_id?: string | null
+          email: string
+          id?: string
+          ipk?: number
+          jurusan: string
+          nama: string
+          nim: string
+          semester: number
+          tanggal_masuk?: string
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
+          deleted_by_email?: string | null
+          dosen_wali_id?: string | null
+          email?: string
+          id?: string
+          ipk?: number
+          jurusan?: string
+          nama?: string
+          nim?: string
+          semester?: number
+          tanggal_masuk?: string
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "students_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          nama: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          nama: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          nama?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_edit_student: {
+        Args: { _student_id: string }
+        Returns: boolean
+      }
+      computed_ipk: {
+        Args: { _student_id: string }
+        Returns: number
+      }
+      grade_points: {
+        Args: { _grade: Database["public"]["Enums"]["letter_grade"] }
+        Returns: number
+      }
+      has_role: {
+        Args: { _role: Database["public"]["Enums"]["app_role"] }
+        Returns: boolean
+      }
+      is_workspace_member: {
+        Args: { _workspace_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "dosen_wali" | "viewer"
+      audit_action: "create" | "update" | "delete" | "import"
+      letter_grade: "A" | "AB" | "B" | "BC" | "C" | "D" | "E"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -150,6 +442,10 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "dosen_wali", "viewer"],
+      audit_action: ["create", "update", "delete", "import"],
+      letter_grade: ["A", "AB", "B", "BC", "C", "D", "E"],
+    },
   },
 } as const
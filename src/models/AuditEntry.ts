@@ -0,0 +1,40 @@
+/**
+ * Audit Entry Model
+ * Satu baris jejak audit: perubahan satu field data mahasiswa oleh seorang pengguna
+ */
+
+import type { Database } from "@/integrations/supabase/types";
+import type { StudentField } from "@/utils/studentDiff";
+
+export type AuditAction = Database["public"]["Enums"]["audit_action"];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Tambah",
+  update: "Ubah",
+  delete: "Hapus",
+  import: "Import",
+};
+
+export type AuditValue = string | number | null;
+
+export interface IAuditEntry {
+  id: string;
+  createdAt: string;
+  actorId: string;
+  actorEmail: string | null;
+  action: AuditAction;
+  studentId: string;
+  studentNim: string;
+  studentNama: string;
+  field: StudentField;
+  before: AuditValue;
+  after: AuditValue;
+}
+
+// Filter halaman audit; semua opsional
+export interface AuditFilter {
+  studentId?: string;
+  actorId?: string;
+  from?: string;
+  to?: string;
+}
@@ -0,0 +1,38 @@
+/**
+ * Course Model - Mata kuliah, pengambilan mata kuliah (enrollment), dan nilai
+ */
+
+import type { Database } from "@/integrations/supabase/types";
+
+export type LetterGrade = Database["public"]["Enums"]["letter_grade"];
+
+// Bobot nilai huruf (harus sama dengan public.grade_points di database)
+export const GRADE_POINTS: Record<LetterGrade, number> = {
+  A: 4,
+  AB: 3.5,
+  B: 3,
+  BC: 2.5,
+  C: 2,
+  D: 1,
+  E: 0,
+};
+
+export const LETTER_GRADES = Object.keys(GRADE_POINTS) as LetterGrade[];
+
+// Mata kuliah dalam katalog
+export interface ICourse {
+  id: string;
+  kode: string;
+  nama: string;
+  sks: number;
+  semester: number;
+}
+
+// Mata kuliah yang diambil mahasiswa pada suatu semester, beserta nilainya
+export interface IEnrollment {
+  id: string;
+  studentId: string;
+  courseId: string;
+  semester: number;
+  grade: LetterGrade | null;
+}
@@ -0,0 +1,23 @@
+/**
+ * Deleted Student Model
+ * Data mahasiswa di Recycle Bin: bisa dipulihkan atau dihapus permanen (purge)
+ */
+
+import { IStudent } from "@/models/Student";
+
+export interface IDeletedStudent {
+  student: IStudent;
+  deletedAt: string;
+  // Email pelaku penghapusan, jika diketahui
+  deletedBy: string | null;
+}
+
+// Masa simpan di Recycle Bin sebelum dihapus permanen otomatis; 0 berarti tanpa batas
+export const RETENTION_OPTIONS = [
+  { value: 7, label: "7 hari" },
+  { value: 30, label: "30 hari" },
+  { value: 90, label: "90 hari" },
+  { value: 0, label: "Tanpa batas" },
+];
+
+export const DEFAULT_RETENTION_DAYS = 30;
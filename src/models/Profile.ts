@@ -0,0 +1,20 @@
+/**
+ * Profile Model
+ * Profil pengguna beserta perannya di aplikasi
+ */
+
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  admin: "Admin",
+  dosen_wali: "Dosen Wali",
+  viewer: "Viewer",
+};
+
+export interface IProfile {
+  id: string;
+  fullName: string | null;
+  role: AppRole;
+}
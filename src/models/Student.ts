@@ -13,8 +13,23 @@ export interface IStudent {
   semester: number;
   ipk: number;
   tanggalMasuk: string;
+  dosenWaliId?: string | null;
 }
 
+// Daftar jurusan yang tersedia di form dan aksi massal
+export const JURUSAN_LIST = [
+  "Teknik Informatika",
+  "Sistem Informasi",
+  "Teknik Elektro",
+  "Teknik Mesin",
+  "Teknik Sipil",
+  "Manajemen",
+  "Akuntansi",
+  "Psikologi",
+  "Hukum",
+  "Kedokteran",
+];
+
 // Base class dengan enkapsulasi
 export abstract class Person {
   protected _nama: string;
@@ -62,6 +77,7 @@ export class Student extends Person implements IStudent {
   private _semester: number;
   private _ipk: number;
   private _tanggalMasuk: string;
+  private _dosenWaliId: string | null;
 
   constructor(data: IStudent) {
     super(data.nama, data.email);
@@ -71,6 +87,7 @@ export class Student extends Person implements IStudent {
     this._semester = data.semester;
     this._ipk = data.ipk;
     this._tanggalMasuk = data.tanggalMasuk;
+    this._dosenWaliId = data.dosenWaliId ?? null;
   }
 
   // Getters
@@ -80,6 +97,7 @@ export class Student extends Person implements IStudent {
   get semester(): number { return this._semester; }
   get ipk(): number { return this._ipk; }
   get tanggalMasuk(): string { return this._tanggalMasuk; }
+  get dosenWaliId(): string | null { return this._dosenWaliId; }
 
   // Setters dengan validasi
   set nim(value: string) {
@@ -127,6 +145,7 @@ export class Student extends Person implements IStudent {
       semester: this._semester,
       ipk: this._ipk,
       tanggalMasuk: this._tanggalMasuk,
+      dosenWaliId: this._dosenWaliId,
     };
   }
 
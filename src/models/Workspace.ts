@@ -0,0 +1,23 @@
+/**
+ * Workspace Model
+ * Data mahasiswa dimiliki oleh satu akun (pribadi) atau satu workspace prodi bersama
+ */
+
+export interface IWorkspace {
+  id: string;
+  nama: string;
+}
+
+// Cakupan data yang sedang aktif untuk pengguna yang login
+export interface DataScope {
+  userId: string;
+  workspaceId: string | null;
+}
+
+/**
+ * Kunci unik untuk sebuah cakupan data
+ * Dipakai untuk memisahkan cache localStorage antar akun/workspace
+ */
+export function getScopeKey(scope: DataScope): string {
+  return scope.workspaceId ? `workspace:${scope.workspaceId}` : `user:${scope.userId}`;
+}
@@ -0,0 +1,279 @@
+/**
+ * Audit Log Page - Jejak audit perubahan data mahasiswa
+ * Menampilkan siapa mengubah field apa dan kapan, dengan filter
+ * mahasiswa, pengguna, dan rentang tanggal
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { ArrowLeft, ScrollText, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { useAuth } from "@/hooks/useAuth";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { AUDIT_ACTION_LABELS, AuditAction, AuditValue, IAuditEntry } from "@/models/AuditEntry";
+import { fetchAuditLog } from "@/utils/auditRepository";
+import { STUDENT_FIELD_LABELS } from "@/utils/studentDiff";
+import { toast } from "@/hooks/use-toast";
+
+const selectClassName =
+  "h-10 rounded-lg border border-border bg-secondary/50 px-3 text-sm";
+
+const ACTION_CLASSES: Record<AuditAction, string> = {
+  create: "bg-success/10 text-success",
+  update: "bg-warning/10 text-warning",
+  delete: "bg-destructive/10 text-destructive",
+  import: "bg-primary/10 text-primary",
+};
+
+// Tanggal dari input (YYYY-MM-DD, waktu lokal) ke timestamp ISO
+function toISODate(value: string, addDays = 0): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (isNaN(date.getTime())) return undefined;
+  date.setDate(date.getDate() + addDays);
+  return date.toISOString();
+}
+
+function formatValue(value: AuditValue): string {
+  return value === null || value === "" ? "-" : String(value);
+}
+
+export default function AuditLog() {
+  const navigate = useNavigate();
+  const { user, isLoading: authLoading } = useAuth();
+  const { workspaces, workspaceId, scope } = useWorkspace(user?.id ?? null);
+
+  const [entries, setEntries] = useState<IAuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [studentId, setStudentId] = useState("");
+  const [actorId, setActorId] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Pilihan filter dikumpulkan dari semua entri yang pernah dimuat
+  const [studentOptions, setStudentOptions] = useState(new Map<string, string>());
+  const [actorOptions, setActorOptions] = useState(new Map<string, string>());
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  // Reset filter saat scope berganti
+  useEffect(() => {
+    setStudentId("");
+    setActorId("");
+    setStudentOptions(new Map());
+    setActorOptions(new Map());
+  }, [workspaceId]);
+
+  useEffect(() => {
+    if (!scope) return;
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetchAuditLog(scope, {
+      studentId: studentId || undefined,
+      actorId: actorId || undefined,
+      from: toISODate(fromDate),
+      to: toISODate(toDate, 1),
+    })
+      .then((result) => {
+        if (cancelled) return;
+        if (!result.success || !result.data) {
+          toast({ title: "Error", description: result.message, variant: "destructive" });
+          return;
+        }
+        const data = result.data;
+        setEntries(data);
+        setStudentOptions((prev) => {
+          const next = new Map(prev);
+          data.forEach((e) => next.set(e.studentId, `${e.studentNim} - ${e.studentNama}`));
+          return next;
+        });
+        setActorOptions((prev) => {
+          const next = new Map(prev);
+          data.forEach((e) => next.set(e.actorId, e.actorEmail ?? e.actorId));
+          return next;
+        });
+      })
+      .catch((error) => console.error("Error loading audit log:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scope, studentId, actorId, fromDate, toDate, reloadKey]);
+
+  const sortedStudents = useMemo(
+    () => [...studentOptions.entries()].sort((a, b) => a[1].localeCompare(b[1])),
+    [studentOptions]
+  );
+  const sortedActors = useMemo(
+    () => [...actorOptions.entries()].sort((a, b) => a[1].localeCompare(b[1])),
+    [actorOptions]
+  );
+
+  const scopeName = workspaceId
+    ? workspaces.find((w) => w.id === workspaceId)?.nama ?? "Workspace"
+    : "Data Pribadi";
+
+  const resetFilters = () => {
+    setStudentId("");
+    setActorId("");
+    setFromDate("");
+    setToDate("");
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/")} title="Kembali">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="w-10 h-10 rounded-lg bg-primary/20 flex items-center justify-center">
+              <ScrollText className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold">Log Audit</h1>
+              <p className="text-sm text-muted-foreground">
+                {scopeName} · {entries.length} perubahan
+              </p>
+            </div>
+          </div>
+          <ThemeToggle />
+        </div>
+
+        {/* Filter */}
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex flex-wrap items-center gap-3 p-4 rounded-xl bg-card/50 border border-border backdrop-blur-sm"
+        >
+          <select
+            value={studentId}
+            onChange={(e) => setStudentId(e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">Semua mahasiswa</option>
+            {sortedStudents.map(([id, label]) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={actorId}
+            onChange={(e) => setActorId(e.target.value)}
+            className={selectClassName}
+          >
+            <option value="">Semua pengguna</option>
+            {sortedActors.map(([id, label]) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Input
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-40"
+            />
+            <span>s/d</span>
+            <Input
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-40"
+            />
+          </div>
+          <Button variant="outline" onClick={resetFilters}>
+            Reset
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setReloadKey((k) => k + 1)}
+            disabled={isLoading}
+            title="Muat ulang"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+        </motion.div>
+
+        {/* Tabel audit */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="glass-card p-6"
+        >
+          <div className="rounded-xl border border-border overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-secondary/50 border-b border-border text-left text-sm text-muted-foreground">
+                  <th className="px-4 py-3 font-medium">Waktu</th>
+                  <th className="px-4 py-3 font-medium">Pengguna</th>
+                  <th className="px-4 py-3 font-medium">Aksi</th>
+                  <th className="px-4 py-3 font-medium">Mahasiswa</th>
+                  <th className="px-4 py-3 font-medium">Field</th>
+                  <th className="px-4 py-3 font-medium">Sebelum</th>
+                  <th className="px-4 py-3 font-medium">Sesudah</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-muted-foreground">
+                      {isLoading ? "Memuat log audit..." : "Belum ada perubahan tercatat"}
+                    </td>
+                  </tr>
+                ) : (
+                  entries.map((entry) => (
+                    <tr key={entry.id} className="border-b border-border/50 text-sm">
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        {new Date(entry.createdAt).toLocaleString("id-ID", {
+                          dateStyle: "short",
+                          timeStyle: "medium",
+                        })}
+                      </td>
+                      <td className="px-4 py-2">{entry.actorEmail ?? entry.actorId}</td>
+                      <td className="px-4 py-2">
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${ACTION_CLASSES[entry.action]}`}
+                        >
+                          {AUDIT_ACTION_LABELS[entry.action]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2">
+                        <code className="px-2 py-1 rounded bg-primary/10 text-primary font-mono text-xs">
+                          {entry.studentNim}
+                        </code>{" "}
+                        {entry.studentNama}
+                      </td>
+                      <td className="px-4 py-2">{STUDENT_FIELD_LABELS[entry.field] ?? entry.field}</td>
+                      <td className="px-4 py-2 text-muted-foreground">{formatValue(entry.before)}</td>
+                      <td className="px-4 py-2">{formatValue(entry.after)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </motion.div>
+      </main>
+    </div>
+  );
+}
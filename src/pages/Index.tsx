@@ -3,16 +3,34 @@
  * 
  * Fitur yang diimplementasikan:
  * 1. CRUD Data Mahasiswa (Create, Read, Update, Delete)
- * 2. Penyimpanan dengan localStorage (File I/O simulation)
+ * 2. Penyimpanan di Supabase dengan cache IndexedDB per baris (cadangan: localStorage)
  * 3. OOP dengan TypeScript (Class, Object, Encapsulation, Inheritance, Polymorphism)
  * 4. Pencarian (Linear Search, Binary Search)
- * 5. Pengurutan (Bubble Sort, Selection Sort)
+ * 5. Pengurutan (Bubble, Selection, Insertion, Shell, Merge, Quick, Heap, Counting, Radix Sort)
  * 6. Validasi Input dengan Regex
  * 7. Error Handling dengan Try-Catch
  * 8. Time Complexity untuk setiap algoritma
+ * 9. Katalog mata kuliah dan nilai; IPK dihitung dari nilai
+ * 10. Cetak transkrip akademik per mahasiswa
+ * 11. Undo/Redo semua perubahan data (Ctrl+Z / Ctrl+Shift+Z)
+ * 12. Riwayat snapshot berversi (IndexedDB) dengan perbandingan dan pemulihan
+ * 13. Log audit per field: siapa mengubah apa dan kapan (halaman /audit)
+ * 14. Import CSV/TSV dengan pemetaan kolom dan preview validasi
+ * 15. Strategi import (ganti, tambah, perbarui per NIM, lewati duplikat) dengan laporan konflik
+ * 16. Import dan export Excel (.xlsx)
+ * 17. Backend penyimpanan lokal yang bisa diganti; IndexedDB hanya menulis baris yang berubah
+ * 18. Sinkronisasi antar tab dengan dialog konflik untuk edit bersamaan
+ * 19. Antrean mutasi offline dengan deteksi versi server (updated_at) dan penggabungan per field
+ * 20. Pembaruan realtime dari pengguna lain, sorotan baris, dan indikator siapa yang sedang melihat
+ * 21. Soft delete dengan Recycle Bin: pulihkan, hapus permanen, dan purge otomatis setelah masa simpan
+ * 22. Pilih banyak baris (termasuk semua hasil pencarian) untuk hapus, export, ubah jurusan, dan naik semester
+ * 23. Naik semester massal untuk data terpilih atau hasil filter, dengan ringkasan dan tanda overdue
+ * 24. Registry algoritma pengurutan yang dipakai bersama oleh pemilih algoritma tabel dan AlgorithmInfo
+ * 25. Pengurutan multi-kunci (Shift+klik header), perbandingan Intl.Collator, NIM numerik, dan tanda stabil
+ * 26. Visualisasi langkah demi langkah algoritma pengurutan (halaman /visualizer)
  */
 
-import { useState, useMemo, useEffect } from "react";
+import { useState, useMemo, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import { motion } from "framer-motion";
 import { Header } from "@/components/Header";
@@ -21,9 +39,26 @@ import { StudentTable } from "@/components/StudentTable";
 import { StudentForm } from "@/components/StudentForm";
 import { DeleteDialog } from "@/components/DeleteDialog";
 import { AlgorithmInfo } from "@/components/AlgorithmInfo";
+import { CourseCatalog } from "@/components/CourseCatalog";
+import { GradeDialog } from "@/components/GradeDialog";
+import { SnapshotHistory } from "@/components/SnapshotHistory";
+import { SyncConflictDialog } from "@/components/SyncConflictDialog";
+import { ServerConflictDialog } from "@/components/ServerConflictDialog";
+import { PresenceIndicator } from "@/components/PresenceIndicator";
+import { RecycleBin } from "@/components/RecycleBin";
+import { PromoteSemesterDialog } from "@/components/PromoteSemesterDialog";
 import { useStudentManager } from "@/hooks/useStudentManager";
 import { useAuth } from "@/hooks/useAuth";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { useRole } from "@/hooks/useRole";
+import { useAcademicRecords } from "@/hooks/useAcademicRecords";
 import { IStudent } from "@/models/Student";
+import { getScopeKey } from "@/models/Workspace";
+import { applyComputedIPK, summarizeTranscript } from "@/utils/gradeCalculator";
+import { printTranscript, downloadTranscript } from "@/utils/transcript";
+import { toast } from "@/hooks/use-toast";
+import { canManageCourses } from "@/utils/permissions";
+import { PromotionPlan, summarizePromotion } from "@/utils/semesterPromotion";
 
 const Index = () => {
   const navigate = useNavigate();
@@ -36,21 +71,95 @@ const Index = () => {
     }
   }, [user, authLoading, navigate]);
 
+  // Cakupan data: pribadi atau workspace prodi
+  const { workspaces, workspaceId, selectWorkspace, scope } = useWorkspace(user?.id ?? null);
+
+  // Peran pengguna: admin, dosen wali, atau viewer
+  const { role, advisors, isLoading: roleLoading, access, can } = useRole(user?.id ?? null);
+
   // State management menggunakan custom hook
   const {
-    students,
+    students: storedStudents,
     isLoading,
     lastSaved,
     addStudent,
     updateStudent,
     deleteStudent,
+    deleteMultiple,
+    updateMultiple,
     importStudents,
-  } = useStudentManager();
+    restoreSnapshot,
+    syncConflicts,
+    resolveSyncConflict,
+    pendingSync,
+    serverConflicts,
+    resolveServerConflict,
+    remoteHighlights,
+    viewers,
+    recycleBin,
+    retentionDays,
+    changeRetention,
+    refreshRecycleBin,
+    restoreFromBin,
+    purgeFromBin,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+  } = useStudentManager(scope, access, user?.email ?? null);
+
+  // Shortcut keyboard undo/redo, kecuali saat mengetik di input
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.closest("input, textarea, select, [contenteditable='true']")) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  // Katalog mata kuliah dan nilai
+  const {
+    courses,
+    enrollments,
+    isLoaded: gradesLoaded,
+    addCourse,
+    removeCourse,
+    saveEnrollment,
+    removeEnrollment,
+  } = useAcademicRecords(scope, access);
+
+  // IPK yang ditampilkan selalu berasal dari nilai (0 jika belum ada nilai)
+  const students = useMemo(
+    () => (gradesLoaded ? applyComputedIPK(storedStudents, enrollments, courses) : storedStudents),
+    [gradesLoaded, storedStudents, enrollments, courses]
+  );
+
+  const canEditStudent = useCallback((student: IStudent) => can("update", student), [can]);
 
   // UI State
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingStudent, setEditingStudent] = useState<IStudent | null>(null);
   const [deleteTarget, setDeleteTarget] = useState<IStudent | null>(null);
+  const [batchDeleteIds, setBatchDeleteIds] = useState<string[]>([]);
+  const [promotionTarget, setPromotionTarget] = useState<{ students: IStudent[]; source: string } | null>(null);
+  const [gradeTarget, setGradeTarget] = useState<IStudent | null>(null);
+  const [isCatalogOpen, setIsCatalogOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isRecycleBinOpen, setIsRecycleBinOpen] = useState(false);
 
   // Hitung statistik
   const stats = useMemo(() => {
@@ -88,14 +197,65 @@ const Index = () => {
     return addStudent(data);
   };
 
+  const handleTranscript = (student: IStudent) => {
+    const summary = summarizeTranscript(student.id, enrollments, courses);
+    if (!printTranscript(student, summary)) {
+      // Pop-up diblokir browser, unduh sebagai file HTML
+      downloadTranscript(student, summary);
+      toast({
+        title: "Transkrip diunduh",
+        description: "Pop-up diblokir, transkrip disimpan sebagai file HTML",
+      });
+    }
+  };
+
   const confirmDelete = () => {
     if (deleteTarget) {
       deleteStudent(deleteTarget.id);
       setDeleteTarget(null);
     }
+    if (batchDeleteIds.length > 0) {
+      deleteMultiple(batchDeleteIds);
+      setBatchDeleteIds([]);
+    }
+  };
+
+  const handleBatchChangeJurusan = (ids: string[], jurusan: string) =>
+    updateMultiple(
+      ids,
+      (student) => (student.jurusan === jurusan ? null : { jurusan }),
+      `Ubah jurusan ${ids.length} mahasiswa ke ${jurusan}`
+    );
+
+  // Hanya perubahan yang disetujui di ringkasan yang diterapkan; mahasiswa yang semesternya
+  // sudah berubah sejak itu (tab lain atau realtime) dilewati agar tidak naik dua kali
+  const confirmPromotion = (plan: PromotionPlan) => {
+    const planned = new Map(plan.promoted.map((entry) => [entry.before.id, entry]));
+    const stale: IStudent[] = [];
+    updateMultiple(
+      [...planned.keys()],
+      (student) => {
+        const { before, after } = planned.get(student.id)!;
+        if (student.semester !== before.semester) {
+          stale.push(student);
+          return null;
+        }
+        return { semester: after.semester };
+      },
+      `Naik semester: ${summarizePromotion(plan)}`
+    );
+    if (stale.length > 0) {
+      toast({
+        title: "Sebagian tidak dinaikkan",
+        description: `Semester ${stale.length} mahasiswa sudah berubah sejak ringkasan dibuat: ${stale
+          .map((s) => s.nama)
+          .join(", ")}`,
+        variant: "destructive",
+      });
+    }
   };
 
-  if (isLoading || authLoading || !user) {
+  if (isLoading || authLoading || roleLoading || !user) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <motion.div
@@ -113,7 +273,7 @@ const Index = () => {
   return (
     <div className="min-h-screen bg-background">
       {/* Header dengan statistik */}
-      <Header totalStudents={students.length} avgIPK={stats.avgIPK} />
+      <Header totalStudents={students.length} avgIPK={stats.avgIPK} role={role} />
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
@@ -123,9 +283,26 @@ const Index = () => {
             {/* Toolbar */}
             <Toolbar
               onAddClick={handleAddClick}
+              onCoursesClick={() => setIsCatalogOpen(true)}
+              onHistoryClick={() => setIsHistoryOpen(true)}
+              onAuditClick={() => navigate("/audit")}
+              onRecycleBinClick={() => setIsRecycleBinOpen(true)}
+              recycleBinCount={recycleBin.length}
               students={students}
               onImport={importStudents}
               lastSaved={lastSaved}
+              pendingSync={pendingSync}
+              workspaces={workspaces}
+              workspaceId={workspaceId}
+              onWorkspaceChange={selectWorkspace}
+              canCreate={can("create")}
+              canImport={can("import")}
+              onUndo={undo}
+              onRedo={redo}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              undoLabel={undoLabel}
+              redoLabel={redoLabel}
             />
 
             {/* Student Table */}
@@ -135,10 +312,19 @@ const Index = () => {
               transition={{ delay: 0.2 }}
               className="glass-card p-6"
             >
+              <PresenceIndicator viewers={viewers} />
               <StudentTable
                 students={students}
                 onEdit={handleEdit}
                 onDelete={handleDelete}
+                onGrades={setGradeTarget}
+                onTranscript={handleTranscript}
+                canEdit={canEditStudent}
+                canDelete={(student) => can("delete", student)}
+                highlightedIds={remoteHighlights}
+                onBatchDelete={setBatchDeleteIds}
+                onBatchChangeJurusan={handleBatchChangeJurusan}
+                onPromoteSemester={(targets, source) => setPromotionTarget({ students: targets, source })}
               />
             </motion.div>
           </div>
@@ -150,7 +336,7 @@ const Index = () => {
               animate={{ opacity: 1, x: 0 }}
               transition={{ delay: 0.3 }}
             >
-              <AlgorithmInfo />
+              <AlgorithmInfo onVisualize={() => navigate("/visualizer")} />
             </motion.div>
           </div>
         </div>
@@ -162,14 +348,81 @@ const Index = () => {
         onClose={() => setIsFormOpen(false)}
         onSubmit={handleFormSubmit}
         editData={editingStudent}
+        advisors={can("assign") ? advisors : undefined}
+      />
+
+      {/* Course Catalog Modal */}
+      <CourseCatalog
+        isOpen={isCatalogOpen}
+        onClose={() => setIsCatalogOpen(false)}
+        courses={courses}
+        canManage={canManageCourses(access)}
+        onAdd={addCourse}
+        onDelete={removeCourse}
+      />
+
+      {/* Snapshot History Modal */}
+      <SnapshotHistory
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        scopeKey={scope ? getScopeKey(scope) : null}
+        currentStudents={storedStudents}
+        canRestore={can("import")}
+        onRestore={restoreSnapshot}
+      />
+
+      {/* Recycle Bin */}
+      <RecycleBin
+        isOpen={isRecycleBinOpen}
+        onClose={() => setIsRecycleBinOpen(false)}
+        entries={recycleBin}
+        retentionDays={retentionDays}
+        onRetentionChange={changeRetention}
+        canRestore={can("create")}
+        canPurge={can("delete")}
+        onRefresh={refreshRecycleBin}
+        onRestore={restoreFromBin}
+        onPurge={purgeFromBin}
+      />
+
+      {/* Promote Semester Modal */}
+      <PromoteSemesterDialog
+        isOpen={!!promotionTarget}
+        onClose={() => setPromotionTarget(null)}
+        source={promotionTarget?.source ?? ""}
+        students={promotionTarget?.students ?? []}
+        canUpdate={canEditStudent}
+        onConfirm={confirmPromotion}
+      />
+
+      {/* Konflik perubahan antar tab */}
+      <SyncConflictDialog conflicts={syncConflicts} onResolve={resolveSyncConflict} />
+
+      {/* Konflik perubahan offline dengan server */}
+      <ServerConflictDialog conflicts={serverConflicts} onResolve={resolveServerConflict} />
+
+      {/* Grade Modal */}
+      <GradeDialog
+        isOpen={!!gradeTarget}
+        onClose={() => setGradeTarget(null)}
+        student={gradeTarget}
+        courses={courses}
+        enrollments={enrollments}
+        canEdit={!!gradeTarget && can("update", gradeTarget)}
+        onSave={saveEnrollment}
+        onRemove={removeEnrollment}
       />
 
       {/* Delete Confirmation Dialog */}
       <DeleteDialog
-        isOpen={!!deleteTarget}
-        onClose={() => setDeleteTarget(null)}
+        isOpen={!!deleteTarget || batchDeleteIds.length > 0}
+        onClose={() => {
+          setDeleteTarget(null);
+          setBatchDeleteIds([]);
+        }}
         onConfirm={confirmDelete}
         studentName={deleteTarget?.nama || ""}
+        count={deleteTarget ? 1 : batchDeleteIds.length}
       />
     </div>
   );
@@ -0,0 +1,339 @@
+/**
+ * Sort Visualizer Page - Animasi langkah demi langkah algoritma pengurutan
+ * Setiap algoritma dijalankan dengan trace (compare, swap, shift, merge, write)
+ * lalu trace diputar ulang di atas data mahasiswa sebagai batang setinggi IPK
+ */
+
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import { ArrowLeft, BarChart3, Play, Pause, StepForward, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { useAuth } from "@/hooks/useAuth";
+import { useWorkspace } from "@/hooks/useWorkspace";
+import { useRole } from "@/hooks/useRole";
+import { useAcademicRecords } from "@/hooks/useAcademicRecords";
+import { IStudent } from "@/models/Student";
+import { getScopeKey } from "@/models/Workspace";
+import { applyComputedIPK } from "@/utils/gradeCalculator";
+import { getStudentStorage } from "@/utils/studentStorage";
+import { fetchStudents } from "@/utils/studentRepository";
+import { STUDENT_FIELD_LABELS } from "@/utils/studentDiff";
+import {
+  applySortEvent,
+  DEFAULT_SORT_ALGORITHM,
+  getSortAlgorithm,
+  SORT_ALGORITHM_IDS,
+  SortAlgorithmId,
+  SortEvent,
+  SortField,
+  SortOrder,
+  supportsField,
+} from "@/utils/sortAlgorithms";
+
+const selectClassName =
+  "h-10 rounded-lg border border-border bg-secondary/50 px-3 text-sm";
+
+// Batang terlalu tipis jika data terlalu banyak
+const MAX_BARS = 60;
+const TICK_MS = 80;
+const SPEEDS = [1, 4, 16, 64];
+const SORT_FIELDS: SortField[] = ["ipk", "semester", "nim", "nama", "jurusan"];
+
+const EVENT_CLASSES: Record<SortEvent["type"], string> = {
+  compare: "bg-warning",
+  swap: "bg-destructive",
+  shift: "bg-destructive",
+  merge: "bg-accent",
+  write: "bg-accent",
+};
+
+interface Playback {
+  ids: string[];
+  index: number;
+  comparisons: number;
+  moves: number;
+}
+
+// Posisi yang disorot untuk satu langkah
+function eventIndices(event: SortEvent): number[] {
+  switch (event.type) {
+    case "compare":
+    case "swap":
+      return [event.i, event.j];
+    case "shift":
+      return [event.from, event.to];
+    case "merge":
+    case "write":
+      return [event.index];
+  }
+}
+
+function describeEvent(event: SortEvent, ids: string[], byId: Map<string, IStudent>): string {
+  const name = (index: number) => byId.get(ids[index])?.nama ?? "-";
+  switch (event.type) {
+    case "compare":
+      return `Bandingkan ${name(event.i)} (#${event.i + 1}) dengan ${name(event.j)} (#${event.j + 1})`;
+    case "swap":
+      return `Tukar posisi #${event.i + 1} dan #${event.j + 1}`;
+    case "shift":
+      return `Geser ${name(event.to)} dari #${event.from + 1} ke #${event.to + 1}`;
+    case "merge":
+      return `Gabungkan ${byId.get(event.id)?.nama ?? "-"} ke posisi #${event.index + 1}`;
+    case "write":
+      return `Tempatkan ${byId.get(event.id)?.nama ?? "-"} di posisi #${event.index + 1}`;
+  }
+}
+
+export default function SortVisualizer() {
+  const navigate = useNavigate();
+  const { user, isLoading: authLoading } = useAuth();
+  const { scope } = useWorkspace(user?.id ?? null);
+  const { access } = useRole(user?.id ?? null);
+  const { courses, enrollments, isLoaded: gradesLoaded } = useAcademicRecords(scope, access);
+
+  const [storedStudents, setStoredStudents] = useState<IStudent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [algorithm, setAlgorithm] = useState<SortAlgorithmId>(DEFAULT_SORT_ALGORITHM);
+  const [field, setField] = useState<SortField>("ipk");
+  const [order, setOrder] = useState<SortOrder>("asc");
+  const [speed, setSpeed] = useState(SPEEDS[0]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playback, setPlayback] = useState<Playback>({ ids: [], index: 0, comparisons: 0, moves: 0 });
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  // Data dari cache lokal; server hanya dipakai jika cache masih kosong
+  useEffect(() => {
+    if (!scope) return;
+    let cancelled = false;
+    setIsLoading(true);
+
+    getStudentStorage()
+      .then((storage) => storage.load(getScopeKey(scope)))
+      .then(async (result) => {
+        if (result.success && result.data && result.data.length > 0) return result.data;
+        const remote = await fetchStudents(scope);
+        return remote.data ?? [];
+      })
+      .then((data) => {
+        if (!cancelled) setStoredStudents(data);
+      })
+      .catch((error) => console.error("Error loading students:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scope]);
+
+  const students = useMemo(
+    () => (gradesLoaded ? applyComputedIPK(storedStudents, enrollments, courses) : storedStudents)
+      .slice(0, MAX_BARS),
+    [gradesLoaded, storedStudents, enrollments, courses]
+  );
+  const byId = useMemo(() => new Map(students.map((s) => [s.id, s])), [students]);
+
+  // Jalankan algoritma sekali dengan trace; animasi hanya memutar ulang trace.
+  // Kolasi kode dipakai agar radix sort juga bisa divisualisasikan
+  const activeAlgorithm = supportsField(algorithm, field, "code") ? algorithm : DEFAULT_SORT_ALGORITHM;
+  const run = useMemo(() => {
+    const trace: SortEvent[] = [];
+    const result = getSortAlgorithm(activeAlgorithm).sort(students, field, order, { trace, collation: "code" });
+    return { trace, result };
+  }, [students, activeAlgorithm, field, order]);
+
+  const reset = useCallback(() => {
+    setIsPlaying(false);
+    setPlayback({ ids: students.map((s) => s.id), index: 0, comparisons: 0, moves: 0 });
+  }, [students]);
+
+  useEffect(() => {
+    reset();
+  }, [run, reset]);
+
+  // Terapkan beberapa langkah sekaligus - O(langkah)
+  const advance = useCallback((steps: number) => {
+    setPlayback((prev) => {
+      if (prev.index >= run.trace.length) return prev;
+      const ids = [...prev.ids];
+      let { index, comparisons, moves } = prev;
+      for (let k = 0; k < steps && index < run.trace.length; k++, index++) {
+        const event = run.trace[index];
+        applySortEvent(ids, event);
+        if (event.type === "compare") comparisons++;
+        else moves++;
+      }
+      return { ids, index, comparisons, moves };
+    });
+  }, [run]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => advance(speed), TICK_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, speed, advance]);
+
+  const isDone = playback.index >= run.trace.length;
+  useEffect(() => {
+    if (isDone) setIsPlaying(false);
+  }, [isDone]);
+
+  const lastEvent = playback.index > 0 ? run.trace[playback.index - 1] : null;
+  const highlighted = new Set(lastEvent ? eventIndices(lastEvent) : []);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/")} title="Kembali">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="w-10 h-10 rounded-lg bg-primary/20 flex items-center justify-center">
+              <BarChart3 className="w-5 h-5 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-xl font-semibold">Visualisasi Pengurutan</h1>
+              <p className="text-sm text-muted-foreground">
+                {students.length} mahasiswa
+                {storedStudents.length > MAX_BARS && ` (${MAX_BARS} pertama dari ${storedStudents.length})`} · tinggi
+                batang = IPK
+              </p>
+            </div>
+          </div>
+          <ThemeToggle />
+        </div>
+
+        {/* Kontrol */}
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex flex-wrap items-center gap-3 p-4 rounded-xl bg-card/50 border border-border backdrop-blur-sm"
+        >
+          <select
+            value={algorithm}
+            onChange={(e) => setAlgorithm(e.target.value as SortAlgorithmId)}
+            className={selectClassName}
+          >
+            {SORT_ALGORITHM_IDS.map((id) => (
+              <option key={id} value={id} disabled={!supportsField(id, field, "code")}>
+                {getSortAlgorithm(id).name}
+              </option>
+            ))}
+          </select>
+          <select value={field} onChange={(e) => setField(e.target.value as SortField)} className={selectClassName}>
+            {SORT_FIELDS.map((f) => (
+              <option key={f} value={f}>
+                Urut berdasarkan {STUDENT_FIELD_LABELS[f]}
+              </option>
+            ))}
+          </select>
+          <select value={order} onChange={(e) => setOrder(e.target.value as SortOrder)} className={selectClassName}>
+            <option value="asc">Naik</option>
+            <option value="desc">Turun</option>
+          </select>
+          <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} className={selectClassName}>
+            {SPEEDS.map((s) => (
+              <option key={s} value={s}>
+                Kecepatan {s}x
+              </option>
+            ))}
+          </select>
+
+          <div className="flex items-center gap-2 ml-auto">
+            <Button
+              variant="gradient"
+              onClick={() => setIsPlaying((p) => !p)}
+              disabled={isDone || students.length === 0}
+              className="gap-2"
+            >
+              {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              {isPlaying ? "Jeda" : "Putar"}
+            </Button>
+            <Button variant="outline" onClick={() => advance(1)} disabled={isPlaying || isDone} className="gap-2">
+              <StepForward className="w-4 h-4" />
+              Langkah
+            </Button>
+            <Button variant="outline" size="icon" onClick={reset} title="Ulangi dari awal">
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          </div>
+        </motion.div>
+
+        {/* Batang */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="glass-card p-6 space-y-4"
+        >
+          <div className="flex flex-wrap gap-4 text-sm">
+            <span className="text-muted-foreground">
+              {run.result.algorithm} · {run.result.timeComplexity.average}
+            </span>
+            <span>
+              Langkah {playback.index} / {run.trace.length}
+            </span>
+            <span>{playback.comparisons} perbandingan</span>
+            <span>{playback.moves} perpindahan</span>
+          </div>
+
+          {students.length === 0 ? (
+            <p className="text-center text-muted-foreground py-24">
+              {isLoading ? "Memuat data..." : "Belum ada data mahasiswa"}
+            </p>
+          ) : (
+            <div className="flex items-end gap-px h-72">
+              {playback.ids.map((id, index) => {
+                const student = byId.get(id);
+                const ipk = student?.ipk ?? 0;
+                const tone = lastEvent && highlighted.has(index)
+                  ? EVENT_CLASSES[lastEvent.type]
+                  : isDone
+                  ? "bg-success/70"
+                  : "bg-primary/60";
+                return (
+                  <div
+                    key={index}
+                    title={student ? `${student.nama} · IPK ${ipk.toFixed(2)}` : undefined}
+                    style={{ height: `${Math.max(2, (ipk / 4) * 100)}%` }}
+                    className={`flex-1 rounded-t transition-colors duration-100 ${tone}`}
+                  />
+                );
+              })}
+            </div>
+          )}
+
+          <p className="text-sm text-muted-foreground min-h-5">
+            {lastEvent
+              ? describeEvent(lastEvent, playback.ids, byId)
+              : "Tekan Putar atau Langkah untuk memulai"}
+            {isDone && playback.index > 0 && " · selesai"}
+          </p>
+
+          {/* Keterangan warna */}
+          <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded bg-warning" /> Bandingkan
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded bg-destructive" /> Tukar / geser
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded bg-accent" /> Gabung / tempatkan
+            </span>
+          </div>
+        </motion.div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * Academic Repository - Katalog mata kuliah dan nilai mahasiswa di Supabase
+ * IPK di tabel students dihitung ulang oleh trigger database setiap nilai berubah
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { ICourse, IEnrollment } from "@/models/Course";
+import { DataScope } from "@/models/Workspace";
+import { RepositoryResult } from "@/utils/studentRepository";
+
+type CourseRow = Tables<"courses">;
+type EnrollmentRow = Tables<"enrollments">;
+
+function courseFromRow(row: CourseRow): ICourse {
+  return {
+    id: row.id,
+    kode: row.kode,
+    nama: row.nama,
+    sks: row.sks,
+    semester: row.semester,
+  };
+}
+
+function enrollmentFromRow(row: EnrollmentRow): IEnrollment {
+  return {
+    id: row.id,
+    studentId: row.student_id,
+    courseId: row.course_id,
+    semester: row.semester,
+    grade: row.grade,
+  };
+}
+
+function failure<T>(action: string, error: { message: string }): RepositoryResult<T> {
+  return {
+    success: false,
+    message: `Gagal ${action}: ${error.message}`,
+  };
+}
+
+/**
+ * Ambil katalog mata kuliah dalam scope aktif
+ */
+export async function fetchCourses(scope: DataScope): Promise<RepositoryResult<ICourse[]>> {
+  const query = supabase.from("courses").select("*");
+  const scopedQuery = scope.workspaceId
+    ? query.eq("workspace_id", scope.workspaceId)
+    : query.eq("user_id", scope.userId).is("workspace_id", null);
+
+  const { data, error } = await scopedQuery
+    .order("semester", { ascending: true })
+    .order("kode", { ascending: true });
+
+  if (error) return failure("memuat mata kuliah", error);
+
+  return {
+    success: true,
+    message: `${data.length} mata kuliah dimuat.`,
+    data: data.map(courseFromRow),
+  };
+}
+
+export async function insertCourse(
+  course: ICourse,
+  scope: DataScope
+): Promise<RepositoryResult<ICourse>> {
+  const { data, error } = await supabase
+    .from("courses")
+    .insert({
+      id: course.id,
+      user_id: scope.userId,
+      workspace_id: scope.workspaceId,
+      kode: course.kode,
+      nama: course.nama,
+      sks: course.sks,
+      semester: course.semester,
+    })
+    .select()
+    .single();
+
+  if (error) return failure("menyimpan mata kuliah", error);
+
+  return {
+    success: true,
+    message: `Mata kuliah ${course.kode} tersimpan.`,
+    data: courseFromRow(data),
+  };
+}
+
+export async function deleteCourse(id: string): Promise<RepositoryResult> {
+  const { error } = await supabase.from("courses").delete().eq("id", id);
+
+  if (error) return failure("menghapus mata kuliah", error);
+
+  return { success: true, message: "Mata kuliah dihapus." };
+}
+
+/**
+ * Ambil seluruh nilai mahasiswa dalam scope aktif
+ * Scope ditentukan lewat relasi ke tabel students
+ */
+export async function fetchEnrollments(
+  scope: DataScope
+): Promise<RepositoryResult<IEnrollment[]>> {
+  const query = supabase
+    .from("enrollments")
+    .select("*, students!inner(user_id, workspace_id)");
+  const scopedQuery = scope.workspaceId
+    ? query.eq("students.workspace_id", scope.workspaceId)
+    : query.eq("students.user_id", scope.userId).is("students.workspace_id", null);
+
+  const { data, error } = await scopedQuery;
+
+  if (error) return failure("memuat nilai", error);
+
+  return {
+    success: true,
+    message: `${data.length} nilai dimuat.`,
+    data: data.map(enrollmentFromRow),
+  };
+}
+
+/**
+ * Simpan pengambilan mata kuliah (satu baris per mahasiswa per mata kuliah)
+ */
+export async function upsertEnrollment(
+  enrollment: IEnrollment
+): Promise<RepositoryResult<IEnrollment>> {
+  const { data, error } = await supabase
+    .from("enrollments")
+    .upsert(
+      {
+        id: enrollment.id,
+        student_id: enrollment.studentId,
+        course_id: enrollment.courseId,
+        semester: enrollment.semester,
+        grade: enrollment.grade,
+      },
+      { onConflict: "student_id,course_id" }
+    )
+    .select()
+    .single();
+
+  if (error) return failure("menyimpan nilai", error);
+
+  return {
+    success: true,
+    message: "Nilai tersimpan.",
+    data: enrollmentFromRow(data),
+  };
+}
+
+export async function deleteEnrollment(id: string): Promise<RepositoryResult> {
+  const { error } = await supabase.from("enrollments").delete().eq("id", id);
+
+  if (error) return failure("menghapus nilai", error);
+
+  return { success: true, message: "Nilai dihapus." };
+}
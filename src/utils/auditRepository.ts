@@ -0,0 +1,66 @@
+/**
+ * Audit Repository - Jejak audit perubahan data mahasiswa di Supabase
+ * Entri ditulis oleh trigger pada tabel students setelah perubahan tersimpan,
+ * dengan pelaku dari sesi login; klien hanya bisa membaca (lihat migration audit_log_trigger)
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { AuditFilter, AuditValue, IAuditEntry } from "@/models/AuditEntry";
+import { DataScope } from "@/models/Workspace";
+import { RepositoryResult } from "@/utils/studentRepository";
+import { StudentField } from "@/utils/studentDiff";
+
+type AuditRow = Tables<"audit_log">;
+
+// Batas baris yang ditampilkan di halaman audit
+const AUDIT_PAGE_LIMIT = 500;
+
+function auditFromRow(row: AuditRow): IAuditEntry {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    actorId: row.actor_id,
+    actorEmail: row.actor_email,
+    action: row.action,
+    studentId: row.student_id,
+    studentNim: row.student_nim,
+    studentNama: row.student_nama,
+    field: row.field as StudentField,
+    before: row.old_value as AuditValue,
+    after: row.new_value as AuditValue,
+  };
+}
+
+/**
+ * Ambil jejak audit dalam scope aktif, terbaru lebih dulu
+ * Filter tanggal berupa timestamp ISO (from inklusif, to eksklusif)
+ */
+export async function fetchAuditLog(
+  scope: DataScope,
+  filter: AuditFilter = {}
+): Promise<RepositoryResult<IAuditEntry[]>> {
+  const query = supabase.from("audit_log").select("*");
+  let scopedQuery = scope.workspaceId
+    ? query.eq("workspace_id", scope.workspaceId)
+    : query.eq("actor_id", scope.userId).is("workspace_id", null);
+
+  if (filter.studentId) scopedQuery = scopedQuery.eq("student_id", filter.studentId);
+  if (filter.actorId) scopedQuery = scopedQuery.eq("actor_id", filter.actorId);
+  if (filter.from) scopedQuery = scopedQuery.gte("created_at", filter.from);
+  if (filter.to) scopedQuery = scopedQuery.lt("created_at", filter.to);
+
+  const { data, error } = await scopedQuery
+    .order("created_at", { ascending: false })
+    .limit(AUDIT_PAGE_LIMIT);
+
+  if (error) {
+    return { success: false, message: `Gagal memuat log audit: ${error.message}` };
+  }
+
+  return {
+    success: true,
+    message: `${data.length} entri audit dimuat.`,
+    data: data.map(auditFromRow),
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Command History - Struktur data undo/redo berbasis dua stack
+ *
+ * Setiap perubahan data dicatat sebagai "command". Undo memindahkan command
+ * dari stack undo ke stack redo, dan sebaliknya. Command baru mengosongkan redo.
+ */
+
+export class CommandHistory<T> {
+  private _undoStack: T[] = [];
+  private _redoStack: T[] = [];
+  private readonly _limit: number;
+
+  constructor(limit = 100) {
+    this._limit = limit;
+  }
+
+  get canUndo(): boolean {
+    return this._undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this._redoStack.length > 0;
+  }
+
+  // Command teratas yang akan di-undo / di-redo berikutnya
+  get nextUndo(): T | undefined {
+    return this._undoStack[this._undoStack.length - 1];
+  }
+
+  get nextRedo(): T | undefined {
+    return this._redoStack[this._redoStack.length - 1];
+  }
+
+  /**
+   * Catat command baru
+   * Time Complexity: O(1), O(n) saat batas tercapai (shift)
+   */
+  push(command: T): void {
+    this._undoStack.push(command);
+    this._redoStack = [];
+    if (this._undoStack.length > this._limit) {
+      this._undoStack.shift();
+    }
+  }
+
+  /**
+   * Ambil command untuk di-undo
+   * Time Complexity: O(1)
+   */
+  undo(): T | undefined {
+    const command = this._undoStack.pop();
+    if (command !== undefined) this._redoStack.push(command);
+    return command;
+  }
+
+  /**
+   * Ambil command untuk di-redo
+   * Time Complexity: O(1)
+   */
+  redo(): T | undefined {
+    const command = this._redoStack.pop();
+    if (command !== undefined) this._undoStack.push(command);
+    return command;
+  }
+
+  clear(): void {
+    this._undoStack = [];
+    this._redoStack = [];
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * CSV Import - Pemetaan kolom spreadsheet ke field mahasiswa dan preview validasi
+ *
+ * Alur: parse (csvParser.ts) -> deteksi header -> pemetaan kolom -> preview per baris
+ * Hanya baris yang lolos validateAllFields yang diimpor
+ */
+
+import { IStudent, Student } from "@/models/Student";
+import { validateAllFields } from "@/utils/validation";
+
+export type ImportField = "nim" | "nama" | "email" | "jurusan" | "semester" | "ipk" | "tanggalMasuk";
+
+// Header yang dipakai exportToCSV, sekaligus label pada langkah pemetaan kolom
+export const CSV_HEADERS: Record<ImportField, string> = {
+  nim: "NIM",
+  nama: "Nama",
+  email: "Email",
+  jurusan: "Jurusan",
+  semester: "Semester",
+  ipk: "IPK",
+  tanggalMasuk: "Tanggal Masuk",
+};
+
+export const IMPORT_FIELDS = Object.keys(CSV_HEADERS) as ImportField[];
+
+// Field yang boleh tidak dipetakan (diberi nilai bawaan)
+const OPTIONAL_FIELDS: ImportField[] = ["tanggalMasuk"];
+
+// Nama kolom lain yang sering dipakai di spreadsheet, dalam bentuk ternormalisasi
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  nim: ["nim", "npm", "nomorindukmahasiswa", "studentid"],
+  nama: ["nama", "namalengkap", "namamahasiswa", "name", "fullname"],
+  email: ["email", "surel", "alamatemail", "emailaddress"],
+  jurusan: ["jurusan", "prodi", "programstudi", "major", "department"],
+  semester: ["semester", "sem", "smt"],
+  ipk: ["ipk", "gpa"],
+  tanggalMasuk: ["tanggalmasuk", "tglmasuk", "tanggal", "enrollmentdate"],
+};
+
+// Indeks kolom file untuk setiap field, null jika tidak dipetakan
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportPreviewRow {
+  rowNumber: number;
+  data: Omit<IStudent, "id">;
+  errors: Record<string, string>;
+}
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function matchHeader(cell: string): ImportField | null {
+  const normalized = normalizeHeader(cell);
+  return IMPORT_FIELDS.find((field) => HEADER_ALIASES[field].includes(normalized)) ?? null;
+}
+
+/**
+ * Baris dianggap header jika minimal dua selnya dikenali sebagai nama kolom
+ * Time Complexity: O(c) dimana c adalah jumlah kolom
+ */
+export function isHeaderRow(row: string[]): boolean {
+  return row.filter((cell) => matchHeader(cell) !== null).length >= 2;
+}
+
+/**
+ * Pemetaan kolom otomatis
+ * Dengan header: dicocokkan lewat nama kolom; tanpa header: urutan kolom export
+ * Time Complexity: O(c)
+ */
+export function autoMapColumns(firstRow: string[], hasHeader: boolean): ColumnMapping {
+  const mapping = Object.fromEntries(IMPORT_FIELDS.map((f) => [f, null])) as ColumnMapping;
+
+  if (!hasHeader) {
+    IMPORT_FIELDS.forEach((field, index) => {
+      if (index < firstRow.length) mapping[field] = index;
+    });
+    return mapping;
+  }
+
+  firstRow.forEach((cell, index) => {
+    const field = matchHeader(cell);
+    if (field && mapping[field] === null) mapping[field] = index;
+  });
+  return mapping;
+}
+
+// Terima YYYY-MM-DD, DD/MM/YYYY, atau DD-MM-YYYY; hasil selalu YYYY-MM-DD
+function parseDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const local = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : local
+      ? [local[3], local[2], local[1]]
+      : [];
+  if (!year) return null;
+
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  if (date.getMonth() !== Number(month) - 1) return null;
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}
+
+// Angka dengan koma desimal (format Indonesia) juga diterima
+function parseNumber(value: string): number {
+  const normalized = value.trim().replace(",", ".");
+  return normalized === "" ? NaN : Number(normalized);
+}
+
+/**
+ * Susun preview: konversi setiap baris sesuai pemetaan dan validasi
+ * Time Complexity: O(r * c) dimana r adalah jumlah baris
+ */
+export function buildImportPreview(
+  rows: string[][],
+  mapping: ColumnMapping,
+  hasHeader: boolean
+): ImportPreviewRow[] {
+  const today = new Date().toISOString().split("T")[0];
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const offset = hasHeader ? 2 : 1;
+  const seenNIM = new Map<string, number>();
+
+  return dataRows.map((row, index) => {
+    const rowNumber = index + offset;
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? "" : (row[column] ?? "").trim();
+    };
+
+    const rawDate = cell("tanggalMasuk");
+    const tanggalMasuk = rawDate ? parseDate(rawDate) : today;
+
+    const data: Omit<IStudent, "id"> = {
+      nim: cell("nim").toUpperCase(),
+      nama: cell("nama"),
+      email: cell("email"),
+      jurusan: cell("jurusan"),
+      semester: parseNumber(cell("semester")),
+      ipk: parseNumber(cell("ipk")),
+      tanggalMasuk: tanggalMasuk ?? rawDate,
+    };
+
+    const { errors } = validateAllFields(data);
+
+    IMPORT_FIELDS.forEach((field) => {
+      if (mapping[field] === null && !OPTIONAL_FIELDS.includes(field)) {
+        errors[field] = `Kolom ${CSV_HEADERS[field]} belum dipetakan`;
+      }
+    });
+
+    if (!tanggalMasuk) {
+      errors.tanggalMasuk = "Tanggal masuk tidak valid (YYYY-MM-DD atau DD/MM/YYYY)";
+    }
+
+    // NIM unik di dalam file
+    if (data.nim && !errors.nim) {
+      const key = data.nim.toLowerCase();
+      const firstRow = seenNIM.get(key);
+      if (firstRow !== undefined) {
+        errors.nim = `NIM duplikat dengan baris ${firstRow}`;
+      } else {
+        seenNIM.set(key, rowNumber);
+      }
+    }
+
+    return { rowNumber, data, errors };
+  });
+}
+
+/**
+ * Ubah baris preview yang valid menjadi data mahasiswa baru
+ * Time Complexity: O(r)
+ */
+export function previewToStudents(preview: ImportPreviewRow[]): IStudent[] {
+  return preview
+    .filter((row) => Object.keys(row.errors).length === 0)
+    .map((row) => new Student({ ...row.data, id: crypto.randomUUID() }).toJSON());
+}
@@ -0,0 +1,120 @@
+/**
+ * CSV Parser - Parsing CSV/TSV sesuai RFC 4180
+ *
+ * - Field boleh diapit tanda kutip ganda; di dalamnya koma, tab, dan baris baru diperlakukan literal
+ * - Kutip ganda di dalam field ditulis dua kali ("")
+ * - Baris dipisah CRLF atau LF
+ *
+ * Dipakai untuk import data mahasiswa dari spreadsheet (lihat csvImport.ts)
+ */
+
+export type Delimiter = "," | "\t" | ";";
+
+const CANDIDATE_DELIMITERS: Delimiter[] = [",", "\t", ";"];
+
+/**
+ * Tebak delimiter dari baris pertama (di luar tanda kutip)
+ * Time Complexity: O(n) dimana n adalah panjang baris pertama
+ */
+export function detectDelimiter(text: string): Delimiter {
+  const counts = new Map<Delimiter, number>(CANDIDATE_DELIMITERS.map((d) => [d, 0]));
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === "\n" || char === "\r")) {
+      break;
+    } else if (!inQuotes && counts.has(char as Delimiter)) {
+      counts.set(char as Delimiter, counts.get(char as Delimiter)! + 1);
+    }
+  }
+
+  let best: Delimiter = ",";
+  counts.forEach((count, delimiter) => {
+    if (count > counts.get(best)!) best = delimiter;
+  });
+  return best;
+}
+
+/**
+ * Parse teks CSV/TSV menjadi baris-baris sel
+ * Baris kosong dilewati
+ * Time Complexity: O(n) dimana n adalah panjang teks (satu kali scan, state machine)
+ */
+export function parseDelimited(text: string, delimiter: Delimiter = detectDelimiter(text)): string[][] {
+  // Buang BOM dari file yang disimpan Excel
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let i = 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\r" && input[i + 1] === "\n") {
+      endRow();
+      i++;
+    } else if (char === "\n" || char === "\r") {
+      endRow();
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Format satu sel agar aman ditulis ke CSV
+ * Sel dikutip jika mengandung delimiter, kutip, atau baris baru
+ */
+export function escapeCSVCell(value: string, delimiter: Delimiter = ","): string {
+  if (value.includes('"') || value.includes(delimiter) || /[\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Susun baris-baris sel menjadi teks CSV (baris dipisah CRLF sesuai RFC 4180)
+ * Time Complexity: O(n) dimana n adalah total panjang sel
+ */
+export function toDelimited(rows: string[][], delimiter: Delimiter = ","): string {
+  return rows
+    .map((row) => row.map((cell) => escapeCSVCell(cell, delimiter)).join(delimiter))
+    .join("\r\n");
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { CURRENT_DATA_VERSION, migrateEnvelope } from "@/utils/dataMigrations";
+import envelopeV10 from "@/utils/__fixtures__/envelope-v1.0.json";
+import envelopeV11 from "@/utils/__fixtures__/envelope-v1.1.json";
+
+describe("migrateEnvelope", () => {
+  it("menaikkan envelope v1.0 ke versi terbaru dengan dosenWaliId kosong", () => {
+    const result = migrateEnvelope(envelopeV10);
+
+    expect(result.success).toBe(true);
+    expect(result.fromVersion).toBe("1.0");
+    expect(result.message).toBe(`Data dinaikkan dari v1.0 ke v${CURRENT_DATA_VERSION}.`);
+    expect(result.data).toEqual(
+      envelopeV10.data.map((record) => ({ ...record, dosenWaliId: null }))
+    );
+  });
+
+  it("menganggap envelope tanpa version sebagai v1.0", () => {
+    const { version: _version, ...unversioned } = envelopeV10;
+    const result = migrateEnvelope(unversioned);
+
+    expect(result.success).toBe(true);
+    expect(result.fromVersion).toBe("1.0");
+    expect(result.data?.every((s) => s.dosenWaliId === null)).toBe(true);
+  });
+
+  it("memuat envelope v1.1 apa adanya", () => {
+    const result = migrateEnvelope(envelopeV11);
+
+    expect(result.success).toBe(true);
+    expect(result.fromVersion).toBe(CURRENT_DATA_VERSION);
+    expect(result.message).toBe("Versi data sudah terbaru.");
+    expect(result.data).toEqual(envelopeV11.data);
+  });
+
+  it("tidak menimpa dosenWaliId yang sudah ada saat migrasi", () => {
+    const result = migrateEnvelope({ ...envelopeV11, version: "1.0" });
+
+    expect(result.data?.[0].dosenWaliId).toBe(envelopeV11.data[0].dosenWaliId);
+  });
+
+  it("menolak envelope dari versi aplikasi yang lebih baru", () => {
+    const result = migrateEnvelope({ ...envelopeV11, version: "2.0" });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain("versi aplikasi yang lebih baru (v2.0)");
+  });
+
+  it("menolak versi yang tidak dikenal dan envelope tanpa data", () => {
+    expect(migrateEnvelope({ ...envelopeV11, version: "beta" }).message).toBe(
+      "Versi data tidak dikenal (vbeta)."
+    );
+    expect(migrateEnvelope({ version: "1.1" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Data Migrations - Versi skema envelope data mahasiswa
+ *
+ * Envelope { version, timestamp, count, data } ditulis oleh saveToFile dan exportToJSON.
+ * Saat dimuat atau diimpor, envelope versi lama dinaikkan langkah demi langkah
+ * lewat MIGRATIONS sampai CURRENT_DATA_VERSION. Versi yang lebih baru dari
+ * aplikasi ditolak, karena field-nya tidak bisa dipahami tanpa kehilangan data.
+ *
+ * Menambah field baru di IStudent:
+ * 1. Naikkan CURRENT_DATA_VERSION
+ * 2. Daftarkan migrasi dari versi sebelumnya yang mengisi nilai bawaan field tersebut
+ */
+
+import { IStudent } from "@/models/Student";
+
+export const CURRENT_DATA_VERSION = "1.1";
+
+// Envelope tanpa field version (mis. file export lama) dianggap versi ini
+const LEGACY_VERSION = "1.0";
+
+export interface DataEnvelope {
+  version: string;
+  timestamp?: string;
+  count?: number;
+  data: Record<string, unknown>[];
+}
+
+export interface MigrationStep {
+  to: string;
+  description: string;
+  migrate: (data: Record<string, unknown>[]) => Record<string, unknown>[];
+}
+
+/**
+ * Registry migrasi: kunci adalah versi asal
+ */
+export const MIGRATIONS: Record<string, MigrationStep> = {
+  "1.0": {
+    to: "1.1",
+    description: "Tambah field dosenWaliId (perwalian)",
+    migrate: (data) => data.map((record) => ({ dosenWaliId: null, ...record })),
+  },
+};
+
+export interface MigrationResult {
+  success: boolean;
+  message: string;
+  data?: IStudent[];
+  fromVersion?: string;
+}
+
+// Bandingkan "major.minor" secara numerik; hasil < 0, 0, atau > 0
+function compareVersions(a: string, b: string): number {
+  const pa = a.split(".").map(Number);
+  const pb = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Naikkan envelope ke CURRENT_DATA_VERSION
+ * Time Complexity: O(k * n) dimana k adalah jumlah langkah migrasi
+ */
+export function migrateEnvelope(raw: unknown): MigrationResult {
+  if (!raw || typeof raw !== "object" || !Array.isArray((raw as DataEnvelope).data)) {
+    return { success: false, message: "Format data tidak valid" };
+  }
+
+  const envelope = raw as DataEnvelope;
+  const fromVersion = typeof envelope.version === "string" ? envelope.version : LEGACY_VERSION;
+  let version = fromVersion;
+  let data = envelope.data;
+
+  while (version !== CURRENT_DATA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      const isFuture = /^\d+(\.\d+)*$/.test(version) &&
+        compareVersions(version, CURRENT_DATA_VERSION) > 0;
+      return {
+        success: false,
+        message: isFuture
+          ? `Data dibuat oleh versi aplikasi yang lebih baru (v${version}). Perbarui aplikasi untuk membukanya.`
+          : `Versi data tidak dikenal (v${version}).`,
+      };
+    }
+    data = step.migrate(data);
+    version = step.to;
+  }
+
+  return {
+    success: true,
+    message: fromVersion === CURRENT_DATA_VERSION
+      ? "Versi data sudah terbaru."
+      : `Data dinaikkan dari v${fromVersion} ke v${CURRENT_DATA_VERSION}.`,
+    data: data as unknown as IStudent[],
+    fromVersion,
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Excel I/O - Import dan export data mahasiswa dalam format .xlsx
+ *
+ * Export memakai kolom bertipe (angka untuk semester/IPK, tanggal untuk tanggal masuk)
+ * dan baris header yang dibekukan. Import membaca sheet pertama menjadi baris teks
+ * yang melewati pemetaan kolom dan preview validasi yang sama dengan import CSV
+ * (csvImport.ts); baris yang bermasalah ditolak sebelum sampai ke strategi import
+ *
+ * Library exceljs dimuat secara dinamis agar tidak memperbesar bundle awal
+ */
+
+import type { CellValue } from "exceljs";
+import { IStudent } from "@/models/Student";
+import { CSV_HEADERS, IMPORT_FIELDS } from "@/utils/csvImport";
+
+export interface XLSXImportResult {
+  success: boolean;
+  message: string;
+  // Isi sel sebagai teks, siap untuk pemetaan kolom (lihat CSVImportDialog)
+  rows?: string[][];
+}
+
+const SHEET_NAME = "Mahasiswa";
+
+// Tanggal "YYYY-MM-DD" sebagai Date UTC agar tidak bergeser karena zona waktu
+function toExcelDate(value: string): Date | string {
+  const date = new Date(`${value}T00:00:00Z`);
+  return isNaN(date.getTime()) ? value : date;
+}
+
+// Ubah nilai sel exceljs menjadi teks untuk pipeline import
+function cellToText(value: CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().split("T")[0];
+  if (typeof value !== "object") return String(value);
+  if ("richText" in value) return value.richText.map((part) => part.text).join("");
+  if ("result" in value) return cellToText(value.result as CellValue);
+  if ("text" in value) return String(value.text);
+  return "";
+}
+
+/**
+ * Export data sebagai file .xlsx (download)
+ * Time Complexity: O(n)
+ */
+export async function exportToXLSX(students: IStudent[]): Promise<void> {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "Student Management System";
+  workbook.created = new Date();
+
+  const worksheet = workbook.addWorksheet(SHEET_NAME, {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+
+  worksheet.columns = [
+    { header: CSV_HEADERS.nim, key: "nim", width: 16 },
+    { header: CSV_HEADERS.nama, key: "nama", width: 28 },
+    { header: CSV_HEADERS.email, key: "email", width: 30 },
+    { header: CSV_HEADERS.jurusan, key: "jurusan", width: 24 },
+    { header: CSV_HEADERS.semester, key: "semester", width: 10, style: { numFmt: "0" } },
+    { header: CSV_HEADERS.ipk, key: "ipk", width: 8, style: { numFmt: "0.00" } },
+    { header: CSV_HEADERS.tanggalMasuk, key: "tanggalMasuk", width: 14, style: { numFmt: "yyyy-mm-dd" } },
+  ];
+
+  students.forEach((s) => {
+    worksheet.addRow({
+      nim: s.nim,
+      nama: s.nama,
+      email: s.email,
+      jurusan: s.jurusan,
+      semester: s.semester,
+      ipk: s.ipk,
+      tanggalMasuk: toExcelDate(s.tanggalMasuk),
+    });
+  });
+
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: IMPORT_FIELDS.length } };
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `student_data_${new Date().toISOString().split("T")[0]}.xlsx`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Baca sheet pertama file .xlsx menjadi baris teks
+ * Header dan pemetaan kolom dideteksi di langkah preview, seperti file CSV
+ * Time Complexity: O(r * c)
+ */
+export async function importFromXLSX(file: File): Promise<XLSXImportResult> {
+  try {
+    const { default: ExcelJS } = await import("exceljs");
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await file.arrayBuffer());
+
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) {
+      return { success: false, message: "File Excel tidak memiliki sheet." };
+    }
+
+    const rows: string[][] = [];
+    worksheet.eachRow((row) => {
+      const cells = Array.from({ length: worksheet.columnCount }, (_, i) =>
+        cellToText(row.getCell(i + 1).value).trim()
+      );
+      if (cells.some((cell) => cell !== "")) rows.push(cells);
+    });
+
+    if (rows.length === 0) {
+      return { success: false, message: `Sheet ${worksheet.name} kosong.` };
+    }
+
+    return {
+      success: true,
+      message: `${rows.length} baris dibaca dari ${worksheet.name}.`,
+      rows,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: "Gagal membaca file Excel. Pastikan format .xlsx valid.",
+    };
+  }
+}
@@ -3,42 +3,141 @@
  * Dalam aplikasi web, kita mensimulasikan File I/O dengan localStorage
  * 
  * Di environment Node.js, ini bisa diganti dengan fs module
+ *
+ * Setiap akun/workspace memiliki "file" sendiri, dibedakan lewat scopeKey
+ * (lihat getScopeKey di models/Workspace.ts)
+ *
+ * Selain satu slot backup, penyimpanan yang mengubah data juga dijadwalkan
+ * sebagai snapshot berversi di IndexedDB (lihat studentStorage.ts dan snapshotStore.ts)
+ *
+ * Envelope versi lama dinaikkan ke versi terbaru saat dibaca (lihat dataMigrations.ts)
  */
 
 import { IStudent } from "@/models/Student";
+import { getSnapshot } from "@/utils/snapshotStore";
+import { toDelimited } from "@/utils/csvParser";
+import { CSV_HEADERS, IMPORT_FIELDS } from "@/utils/csvImport";
+import { CURRENT_DATA_VERSION, migrateEnvelope } from "@/utils/dataMigrations";
+import { partitionRecords, QuarantinedRecord } from "@/utils/studentSchema";
 
 const STORAGE_KEY = "student_data";
 const BACKUP_KEY = "student_data_backup";
+const QUARANTINE_KEY = "student_data_quarantine";
+
+function getStorageKey(scopeKey: string): string {
+  return `${STORAGE_KEY}:${scopeKey}`;
+}
+
+function getBackupKey(scopeKey: string): string {
+  return `${BACKUP_KEY}:${scopeKey}`;
+}
+
+function getQuarantineKey(scopeKey: string): string {
+  return `${QUARANTINE_KEY}:${scopeKey}`;
+}
 
 export interface FileIOResult {
   success: boolean;
   message: string;
   data?: IStudent[];
   timestamp?: string;
+  quarantined?: QuarantinedRecord[];
+}
+
+/**
+ * Naikkan versi envelope lalu pisahkan record yang tidak sesuai skema
+ * Time Complexity: O(n)
+ */
+export function loadEnvelope(raw: unknown): FileIOResult {
+  const migration = migrateEnvelope(raw);
+  if (!migration.success || !migration.data) {
+    return { success: false, message: migration.message };
+  }
+
+  const { valid, quarantined } = partitionRecords(migration.data);
+  return {
+    success: true,
+    message: quarantined.length > 0
+      ? `${valid.length} data valid, ${quarantined.length} data tidak valid dikarantina.`
+      : `${valid.length} data mahasiswa berhasil dimuat.`,
+    data: valid,
+    quarantined,
+  };
+}
+
+/**
+ * Baca record yang dikarantina untuk scope
+ */
+export function readQuarantine(scopeKey: string): QuarantinedRecord[] {
+  try {
+    const raw = localStorage.getItem(getQuarantineKey(scopeKey));
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Simpan record tidak valid agar tidak hilang saat cache ditulis ulang
+ * Record yang sama tidak dicatat dua kali
+ */
+export function addToQuarantine(scopeKey: string, records: QuarantinedRecord[]): void {
+  if (records.length === 0) return;
+  const existing = readQuarantine(scopeKey);
+  const seen = new Set(existing.map((q) => JSON.stringify(q.record)));
+  const fresh = records.filter((q) => !seen.has(JSON.stringify(q.record)));
+  if (fresh.length === 0) return;
+  localStorage.setItem(getQuarantineKey(scopeKey), JSON.stringify([...existing, ...fresh]));
+}
+
+/**
+ * Unduh record yang dikarantina sebagai JSON lalu kosongkan karantina
+ */
+export function exportQuarantine(scopeKey: string): void {
+  const records = readQuarantine(scopeKey);
+  const blob = new Blob([JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    count: records.length,
+    records,
+  }, null, 2)], {
+    type: "application/json",
+  });
+  
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `student_data_quarantine_${new Date().toISOString().split("T")[0]}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+  
+  localStorage.removeItem(getQuarantineKey(scopeKey));
 }
 
 /**
  * Simpan data ke "file" (localStorage)
  * Time Complexity: O(n) untuk serialisasi
  */
-export function saveToFile(students: IStudent[]): FileIOResult {
+export function saveToFile(students: IStudent[], scopeKey: string): FileIOResult {
   try {
     const timestamp = new Date().toISOString();
     const dataToSave = {
-      version: "1.0",
+      version: CURRENT_DATA_VERSION,
       timestamp,
       count: students.length,
       data: students,
     };
     
     // Backup data sebelumnya
-    const existingData = localStorage.getItem(STORAGE_KEY);
+    const existingData = localStorage.getItem(getStorageKey(scopeKey));
     if (existingData) {
-      localStorage.setItem(BACKUP_KEY, existingData);
+      localStorage.setItem(getBackupKey(scopeKey), existingData);
     }
     
     // Simpan data baru
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(dataToSave));
+    localStorage.setItem(getStorageKey(scopeKey), JSON.stringify(dataToSave));
     
     return {
       success: true,
@@ -70,9 +169,9 @@ export function saveToFile(students: IStudent[]): FileIOResult {
  * Baca data dari "file" (localStorage)
  * Time Complexity: O(n) untuk deserialisasi
  */
-export function readFromFile(): FileIOResult {
+export function readFromFile(scopeKey: string): FileIOResult {
   try {
-    const rawData = localStorage.getItem(STORAGE_KEY);
+    const rawData = localStorage.getItem(getStorageKey(scopeKey));
     
     if (!rawData) {
       return {
@@ -84,15 +183,15 @@ export function readFromFile(): FileIOResult {
     
     const parsedData = JSON.parse(rawData);
     
-    // Validasi struktur data
-    if (!parsedData.data || !Array.isArray(parsedData.data)) {
-      throw new Error("Format data tidak valid");
+    // Validasi struktur, versi, dan skema setiap record
+    const loaded = loadEnvelope(parsedData);
+    if (!loaded.success) {
+      throw new Error(loaded.message);
     }
+    addToQuarantine(scopeKey, loaded.quarantined ?? []);
     
     return {
-      success: true,
-      message: `${parsedData.count} data mahasiswa berhasil dimuat.`,
-      data: parsedData.data,
+      ...loaded,
       timestamp: parsedData.timestamp,
     };
   } catch (error) {
@@ -115,12 +214,39 @@ export function readFromFile(): FileIOResult {
   }
 }
 
+/**
+ * Baca data versi lama yang tersimpan tanpa scope (key "student_data")
+ * null berarti tidak ada data lama
+ */
+export function readUnscopedFile(): FileIOResult | null {
+  const rawData = localStorage.getItem(STORAGE_KEY);
+  if (!rawData) return null;
+
+  try {
+    const parsedData = JSON.parse(rawData);
+    return { ...loadEnvelope(parsedData), timestamp: parsedData.timestamp };
+  } catch (error) {
+    return {
+      success: false,
+      message: "Data lama rusak. Format JSON tidak valid.",
+    };
+  }
+}
+
+/**
+ * Hapus data versi lama tanpa scope beserta backup-nya
+ */
+export function removeUnscopedFile(): void {
+  localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(BACKUP_KEY);
+}
+
 /**
  * Restore dari backup
  */
-export function restoreFromBackup(): FileIOResult {
+export function restoreFromBackup(scopeKey: string): FileIOResult {
   try {
-    const backupData = localStorage.getItem(BACKUP_KEY);
+    const backupData = localStorage.getItem(getBackupKey(scopeKey));
     
     if (!backupData) {
       return {
@@ -129,14 +255,18 @@ export function restoreFromBackup(): FileIOResult {
       };
     }
     
-    localStorage.setItem(STORAGE_KEY, backupData);
-    
     const parsedData = JSON.parse(backupData);
+    const loaded = loadEnvelope(parsedData);
+    if (!loaded.success) {
+      return loaded;
+    }
+    addToQuarantine(scopeKey, loaded.quarantined ?? []);
+    
+    localStorage.setItem(getStorageKey(scopeKey), backupData);
     
     return {
-      success: true,
+      ...loaded,
       message: "Data berhasil dipulihkan dari backup.",
-      data: parsedData.data,
       timestamp: parsedData.timestamp,
     };
   } catch (error) {
@@ -147,18 +277,56 @@ export function restoreFromBackup(): FileIOResult {
   }
 }
 
+/**
+ * Baca data snapshot berversi dari IndexedDB untuk dipulihkan
+ * Tidak menulis cache; pemanggil menyimpannya lewat backend aktif (getStudentStorage)
+ */
+export async function restoreFromSnapshot(scopeKey: string, id: number): Promise<FileIOResult> {
+  try {
+    const snapshot = await getSnapshot(id);
+    
+    if (!snapshot || snapshot.scopeKey !== scopeKey) {
+      return {
+        success: false,
+        message: "Snapshot tidak ditemukan.",
+      };
+    }
+    
+    const loaded = loadEnvelope(snapshot);
+    if (!loaded.success || !loaded.data) {
+      return loaded;
+    }
+    addToQuarantine(scopeKey, loaded.quarantined ?? []);
+    
+    const { timestamp } = snapshot;
+    
+    return {
+      success: true,
+      message: `Data berhasil dipulihkan dari snapshot ${new Date(timestamp).toLocaleString("id-ID")}.`,
+      data: loaded.data,
+      timestamp,
+      quarantined: loaded.quarantined,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: "Gagal memulihkan data dari snapshot.",
+    };
+  }
+}
+
 /**
  * Hapus semua data
  */
-export function clearAllData(): FileIOResult {
+export function clearAllData(scopeKey: string): FileIOResult {
   try {
     // Backup sebelum hapus
-    const existingData = localStorage.getItem(STORAGE_KEY);
+    const existingData = localStorage.getItem(getStorageKey(scopeKey));
     if (existingData) {
-      localStorage.setItem(BACKUP_KEY, existingData);
+      localStorage.setItem(getBackupKey(scopeKey), existingData);
     }
     
-    localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(getStorageKey(scopeKey));
     
     return {
       success: true,
@@ -177,6 +345,7 @@ export function clearAllData(): FileIOResult {
  */
 export function exportToJSON(students: IStudent[]): void {
   const dataToExport = {
+    version: CURRENT_DATA_VERSION,
     exportedAt: new Date().toISOString(),
     exportedBy: "Student Management System",
     count: students.length,
@@ -209,15 +378,8 @@ export function importFromJSON(file: File): Promise<FileIOResult> {
         const content = event.target?.result as string;
         const parsedData = JSON.parse(content);
         
-        if (!parsedData.data || !Array.isArray(parsedData.data)) {
-          throw new Error("Format file tidak valid");
-        }
-        
-        resolve({
-          success: true,
-          message: `${parsedData.data.length} data mahasiswa berhasil diimpor.`,
-          data: parsedData.data,
-        });
+        // Record yang tidak sesuai skema dilaporkan, bukan ikut diimpor
+        resolve(loadEnvelope(parsedData));
       } catch (error) {
         resolve({
           success: false,
@@ -238,10 +400,22 @@ export function importFromJSON(file: File): Promise<FileIOResult> {
 }
 
 /**
- * Export data sebagai CSV
+ * Baca isi file teks (CSV/TSV) untuk diproses di langkah pemetaan kolom
+ */
+export function readTextFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve((event.target?.result as string) ?? "");
+    reader.onerror = () => reject(new Error("Gagal membaca file."));
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * Export data sebagai CSV (RFC 4180)
  */
 export function exportToCSV(students: IStudent[]): void {
-  const headers = ["NIM", "Nama", "Email", "Jurusan", "Semester", "IPK", "Tanggal Masuk"];
+  const headers = IMPORT_FIELDS.map((field) => CSV_HEADERS[field]);
   const rows = students.map((s) => [
     s.nim,
     s.nama,
@@ -252,10 +426,7 @@ export function exportToCSV(students: IStudent[]): void {
     s.tanggalMasuk,
   ]);
   
-  const csvContent = [
-    headers.join(","),
-    ...rows.map((row) => row.map((cell) => `"${cell}"`).join(",")),
-  ].join("\n");
+  const csvContent = toDelimited([headers, ...rows]);
   
   const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
   const url = URL.createObjectURL(blob);
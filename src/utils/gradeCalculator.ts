@@ -0,0 +1,119 @@
+/**
+ * Grade Calculator - Perhitungan IPS dan IPK dari nilai mata kuliah
+ *
+ * IP = Σ(bobot nilai × SKS) / Σ SKS
+ * Hanya mata kuliah yang sudah memiliki nilai yang dihitung
+ */
+
+import { IStudent } from "@/models/Student";
+import { GRADE_POINTS, ICourse, IEnrollment } from "@/models/Course";
+
+export interface TranscriptEntry {
+  enrollment: IEnrollment;
+  course: ICourse;
+}
+
+export interface SemesterSummary {
+  semester: number;
+  entries: TranscriptEntry[];
+  totalSKS: number;
+  ips: number;
+}
+
+export interface TranscriptSummary {
+  semesters: SemesterSummary[];
+  totalSKS: number;
+  ipk: number;
+  hasGrades: boolean;
+}
+
+function roundGPA(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Hitung indeks prestasi dari sekumpulan entri
+ * Time Complexity: O(n)
+ */
+export function calculateGPA(entries: TranscriptEntry[]): number {
+  let weighted = 0;
+  let sks = 0;
+
+  for (const { enrollment, course } of entries) {
+    if (enrollment.grade === null) continue;
+    weighted += GRADE_POINTS[enrollment.grade] * course.sks;
+    sks += course.sks;
+  }
+
+  return sks === 0 ? 0 : roundGPA(weighted / sks);
+}
+
+/**
+ * Ringkasan transkrip seorang mahasiswa: daftar per semester, IPS, dan IPK
+ * Time Complexity: O(n log n) karena pengurutan semester
+ */
+export function summarizeTranscript(
+  studentId: string,
+  enrollments: IEnrollment[],
+  courses: ICourse[]
+): TranscriptSummary {
+  const courseMap = new Map(courses.map((c) => [c.id, c]));
+  const bySemester = new Map<number, TranscriptEntry[]>();
+  const allEntries: TranscriptEntry[] = [];
+
+  for (const enrollment of enrollments) {
+    if (enrollment.studentId !== studentId) continue;
+    const course = courseMap.get(enrollment.courseId);
+    if (!course) continue;
+
+    const entry = { enrollment, course };
+    allEntries.push(entry);
+    const list = bySemester.get(enrollment.semester) ?? [];
+    list.push(entry);
+    bySemester.set(enrollment.semester, list);
+  }
+
+  const semesters = [...bySemester.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([semester, entries]) => ({
+      semester,
+      entries: entries.sort((a, b) => a.course.kode.localeCompare(b.course.kode)),
+      totalSKS: entries.reduce((sum, e) => sum + e.course.sks, 0),
+      ips: calculateGPA(entries),
+    }));
+
+  return {
+    semesters,
+    totalSKS: allEntries.reduce((sum, e) => sum + e.course.sks, 0),
+    ipk: calculateGPA(allEntries),
+    hasGrades: allEntries.some((e) => e.enrollment.grade !== null),
+  };
+}
+
+/**
+ * Ganti IPK setiap mahasiswa dengan hasil perhitungan dari nilainya
+ * Mahasiswa tanpa nilai ber-IPK 0, sama dengan computed_ipk di database yang juga
+ * menimpa IPK yang dikirim klien
+ * Time Complexity: O(n + m) dimana m adalah jumlah enrollment
+ */
+export function applyComputedIPK(
+  students: IStudent[],
+  enrollments: IEnrollment[],
+  courses: ICourse[]
+): IStudent[] {
+  const courseMap = new Map(courses.map((c) => [c.id, c]));
+  const entriesByStudent = new Map<string, TranscriptEntry[]>();
+
+  for (const enrollment of enrollments) {
+    const course = courseMap.get(enrollment.courseId);
+    if (!course || enrollment.grade === null) continue;
+    const list = entriesByStudent.get(enrollment.studentId) ?? [];
+    list.push({ enrollment, course });
+    entriesByStudent.set(enrollment.studentId, list);
+  }
+
+  return students.map((s) => {
+    const ipk = calculateGPA(entriesByStudent.get(s.id) ?? []);
+    return s.ipk === ipk ? s : { ...s, ipk };
+  });
+}
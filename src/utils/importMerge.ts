@@ -0,0 +1,160 @@
+/**
+ * Import Merge - Strategi penggabungan data import dengan data yang sudah ada
+ *
+ * - replace : ganti seluruh data dengan isi file
+ * - append  : tambahkan data baru; NIM yang sudah terdaftar ditolak
+ * - upsert  : NIM yang sudah terdaftar diperbarui, sisanya ditambahkan
+ * - skip    : tambahkan data baru; NIM yang sudah terdaftar dilewati
+ *
+ * Setiap record divalidasi dengan validateAllFields dan NIM di dalam file harus unik
+ */
+
+import { IStudent, Student } from "@/models/Student";
+import { validateAllFields } from "@/utils/validation";
+import { diffStudentFields } from "@/utils/studentDiff";
+
+export type ImportStrategy = "replace" | "append" | "upsert" | "skip";
+
+export const IMPORT_STRATEGIES: { value: ImportStrategy; label: string; description: string }[] = [
+  {
+    value: "upsert",
+    label: "Perbarui berdasarkan NIM",
+    description: "NIM yang sudah ada diperbarui, NIM baru ditambahkan",
+  },
+  {
+    value: "skip",
+    label: "Lewati duplikat",
+    description: "Hanya NIM baru yang ditambahkan, data lama tidak diubah",
+  },
+  {
+    value: "append",
+    label: "Tambahkan",
+    description: "Tambahkan semua data; NIM yang sudah ada ditolak sebagai konflik",
+  },
+  {
+    value: "replace",
+    label: "Ganti semua",
+    description: "Data lama yang tidak ada di file akan dihapus",
+  },
+];
+
+export interface ImportReport {
+  added: IStudent[];
+  updated: { before: IStudent; after: IStudent }[];
+  skipped: { student: IStudent; reason: string }[];
+  rejected: { student: Partial<IStudent>; reason: string }[];
+  removed: IStudent[];
+}
+
+export interface MergeResult {
+  data: IStudent[];
+  report: ImportReport;
+}
+
+// Normalisasi record dari file; field yang hilang dibiarkan kosong agar ditolak validasi
+function normalizeRecord(record: Partial<IStudent>): Omit<IStudent, "id"> {
+  return {
+    nim: String(record.nim ?? "").trim().toUpperCase(),
+    nama: String(record.nama ?? "").trim(),
+    email: String(record.email ?? "").trim(),
+    jurusan: String(record.jurusan ?? "").trim(),
+    semester: Number(record.semester),
+    ipk: Number(record.ipk),
+    tanggalMasuk: record.tanggalMasuk || new Date().toISOString().split("T")[0],
+    dosenWaliId: record.dosenWaliId ?? null,
+  };
+}
+
+/**
+ * Gabungkan data import dengan data yang ada sesuai strategi
+ * Time Complexity: O(n + m) menggunakan hash map NIM
+ */
+export function mergeImport(
+  existing: IStudent[],
+  incoming: Partial<IStudent>[],
+  strategy: ImportStrategy
+): MergeResult {
+  const report: ImportReport = { added: [], updated: [], skipped: [], rejected: [], removed: [] };
+  const existingByNIM = new Map(existing.map((s) => [s.nim.toLowerCase(), s]));
+  const seenNIM = new Set<string>();
+  // Perubahan terhadap data lama, diterapkan di posisi semula
+  const replacements = new Map<string, IStudent>();
+  const additions: IStudent[] = [];
+
+  for (const record of incoming) {
+    const data = normalizeRecord(record);
+    const validation = validateAllFields(data);
+    if (!validation.isValid) {
+      report.rejected.push({ student: record, reason: Object.values(validation.errors).join(", ") });
+      continue;
+    }
+
+    const key = data.nim.toLowerCase();
+    if (seenNIM.has(key)) {
+      report.rejected.push({ student: record, reason: "NIM duplikat di dalam file" });
+      continue;
+    }
+    seenNIM.add(key);
+
+    const current = existingByNIM.get(key);
+    if (!current) {
+      const student = new Student({ ...data, id: crypto.randomUUID() }).toJSON();
+      additions.push(student);
+      report.added.push(student);
+      continue;
+    }
+
+    switch (strategy) {
+      case "append":
+        report.rejected.push({ student: record, reason: "NIM sudah terdaftar" });
+        break;
+      case "skip":
+        report.skipped.push({ student: current, reason: "NIM sudah terdaftar" });
+        break;
+      case "upsert":
+      case "replace": {
+        // Pertahankan id dan dosen wali lama agar riwayat dan perwalian tidak putus
+        const updated: IStudent = {
+          ...current,
+          ...data,
+          id: current.id,
+          dosenWaliId: record.dosenWaliId !== undefined ? data.dosenWaliId : current.dosenWaliId,
+        };
+        replacements.set(current.id, updated);
+        if (diffStudentFields(current, updated).length > 0) {
+          report.updated.push({ before: current, after: updated });
+        } else {
+          report.skipped.push({ student: current, reason: "Data sama" });
+        }
+        break;
+      }
+    }
+  }
+
+  let data: IStudent[];
+  if (strategy === "replace") {
+    report.removed = existing.filter((s) => !replacements.has(s.id));
+    data = [
+      ...existing.filter((s) => replacements.has(s.id)).map((s) => replacements.get(s.id)!),
+      ...additions,
+    ];
+  } else {
+    data = [...existing.map((s) => replacements.get(s.id) ?? s), ...additions];
+  }
+
+  return { data, report };
+}
+
+/**
+ * Ringkasan satu baris untuk toast
+ */
+export function summarizeImportReport(report: ImportReport): string {
+  const parts = [
+    `${report.added.length} ditambahkan`,
+    `${report.updated.length} diperbarui`,
+    `${report.skipped.length} dilewati`,
+    `${report.rejected.length} ditolak`,
+  ];
+  if (report.removed.length > 0) parts.push(`${report.removed.length} dihapus`);
+  return parts.join(", ");
+}
@@ -0,0 +1,41 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// Modul dimuat ulang agar koneksi yang di-cache tidak terbawa antar test
+async function loadIndexedDB() {
+  vi.resetModules();
+  return import("@/utils/indexedDB");
+}
+
+function open(version: number): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open("student_manager", version);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+describe("openDatabase", () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  it("menolak upgrade yang terhalang koneksi versi lama di tab lain", async () => {
+    const oldTab = await open(2);
+    const { openDatabase } = await loadIndexedDB();
+
+    await expect(openDatabase()).rejects.toThrow("dibuka tab lain dengan versi lama");
+    oldTab.close();
+  });
+
+  it("menutup koneksi saat tab lain meminta upgrade versi", async () => {
+    const { openDatabase } = await loadIndexedDB();
+    const db = await openDatabase();
+    expect(db.objectStoreNames.contains("sync_queue")).toBe(true);
+
+    const newerTab = await open(db.version + 1);
+    expect(newerTab.version).toBe(db.version + 1);
+    newerTab.close();
+  });
+});
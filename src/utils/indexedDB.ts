@@ -0,0 +1,100 @@
+/**
+ * IndexedDB Helper - Koneksi dan skema database lokal aplikasi
+ * Semua object store didefinisikan di sini agar upgrade versi terpusat
+ */
+
+const DB_NAME = "student_manager";
+const DB_VERSION = 3;
+
+export const SNAPSHOT_STORE = "snapshots";
+// v2: satu record per mahasiswa (key [scopeKey, id]) dan metadata per scope
+export const STUDENT_STORE = "students";
+export const META_STORE = "student_meta";
+// v3: antrean sinkronisasi server (key [scopeKey, studentId]) dan versi server per scope
+export const SYNC_QUEUE_STORE = "sync_queue";
+export const SYNC_VERSIONS_STORE = "sync_versions";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Buka (dan bila perlu buat/upgrade) database
+ * Koneksi di-cache sehingga hanya dibuka sekali per sesi, dan ditutup saat tab lain
+ * meminta upgrade versi. Jika upgrade terhalang koneksi lama di tab lain, Promise
+ * ditolak agar pemanggil memakai localStorage alih-alih menunggu tanpa batas
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB tidak didukung browser ini"));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let blocked = false;
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        const store = db.createObjectStore(SNAPSHOT_STORE, { keyPath: "id", autoIncrement: true });
+        store.createIndex("scopeKey", "scopeKey");
+      }
+      if (!db.objectStoreNames.contains(STUDENT_STORE)) {
+        const store = db.createObjectStore(STUDENT_STORE, { keyPath: ["scopeKey", "id"] });
+        store.createIndex("scopeKey", "scopeKey");
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: "scopeKey" });
+      }
+      if (!db.objectStoreNames.contains(SYNC_QUEUE_STORE)) {
+        db.createObjectStore(SYNC_QUEUE_STORE, { keyPath: ["scopeKey", "studentId"] });
+      }
+      if (!db.objectStoreNames.contains(SYNC_VERSIONS_STORE)) {
+        db.createObjectStore(SYNC_VERSIONS_STORE, { keyPath: "scopeKey" });
+      }
+    };
+
+    request.onblocked = () => {
+      blocked = true;
+      dbPromise = null;
+      reject(new Error("Database lokal masih dibuka tab lain dengan versi lama. Tutup tab tersebut lalu muat ulang."));
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Sesi ini sudah beralih ke localStorage; koneksi yang terlambat terbuka tidak dipakai
+      if (blocked) {
+        db.close();
+        return;
+      }
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+// Ubah IDBRequest menjadi Promise
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Tunggu transaksi selesai (commit)
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,62 @@
+/**
+ * Permissions - Hak akses operasi data mahasiswa berdasarkan peran
+ *
+ * - admin      : semua operasi, termasuk menetapkan dosen wali (assign)
+ * - dosen_wali : hanya mengubah data mahasiswa perwaliannya sendiri
+ * - viewer     : hanya membaca
+ *
+ * Aturan yang sama ditegakkan oleh Row Level Security di database
+ */
+
+import { IStudent } from "@/models/Student";
+import { AppRole } from "@/models/Profile";
+
+export type StudentAction = "create" | "update" | "delete" | "import" | "assign";
+
+export interface AccessContext {
+  userId: string | null;
+  role: AppRole | null;
+}
+
+/**
+ * Cek apakah pengguna boleh melakukan aksi (opsional pada mahasiswa tertentu)
+ * Time Complexity: O(1)
+ */
+export function canPerform(
+  access: AccessContext,
+  action: StudentAction,
+  student?: IStudent
+): boolean {
+  switch (access.role) {
+    case "admin":
+      return true;
+    case "dosen_wali":
+      return (
+        action === "update" &&
+        !!student &&
+        !!access.userId &&
+        student.dosenWaliId === access.userId
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Katalog mata kuliah hanya dikelola oleh admin
+ */
+export function canManageCourses(access: AccessContext): boolean {
+  return access.role === "admin";
+}
+
+const ACTION_LABELS: Record<StudentAction, string> = {
+  create: "menambah data mahasiswa",
+  update: "mengubah data mahasiswa ini",
+  delete: "menghapus data mahasiswa",
+  import: "mengimpor data mahasiswa",
+  assign: "menetapkan dosen wali",
+};
+
+export function getAccessDeniedMessage(action: StudentAction): string {
+  return `Anda tidak memiliki akses untuk ${ACTION_LABELS[action]}`;
+}
@@ -0,0 +1,81 @@
+/**
+ * Recycle Bin - Cermin lokal data mahasiswa yang dihapus (soft delete)
+ *
+ * Sumber utamanya adalah baris students dengan deleted_at terisi di server;
+ * salinan lokal per scope dipakai saat offline dan diperbarui setiap kali
+ * data dihapus atau dipulihkan dari perangkat ini
+ */
+
+import { IStudent } from "@/models/Student";
+import { DEFAULT_RETENTION_DAYS, IDeletedStudent } from "@/models/DeletedStudent";
+
+const BIN_KEY_PREFIX = "student_recycle_bin:";
+const RETENTION_KEY_PREFIX = "student_recycle_retention:";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function readRecycleBin(scopeKey: string): IDeletedStudent[] {
+  try {
+    const raw = localStorage.getItem(BIN_KEY_PREFIX + scopeKey);
+    return raw ? (JSON.parse(raw) as IDeletedStudent[]) : [];
+  } catch (error) {
+    console.error("Error reading recycle bin:", error);
+    return [];
+  }
+}
+
+export function writeRecycleBin(scopeKey: string, bin: IDeletedStudent[]): void {
+  try {
+    if (bin.length === 0) localStorage.removeItem(BIN_KEY_PREFIX + scopeKey);
+    else localStorage.setItem(BIN_KEY_PREFIX + scopeKey, JSON.stringify(bin));
+  } catch (error) {
+    console.error("Error writing recycle bin:", error);
+  }
+}
+
+/**
+ * Tambahkan data yang dihapus; entri lama dengan id yang sama diganti
+ * Time Complexity: O(n + k)
+ */
+export function addToRecycleBin(
+  bin: IDeletedStudent[],
+  students: IStudent[],
+  deletedBy: string | null
+): IDeletedStudent[] {
+  if (students.length === 0) return bin;
+  const deletedAt = new Date().toISOString();
+  const ids = new Set(students.map((s) => s.id));
+  return [
+    ...students.map((student) => ({ student, deletedAt, deletedBy })),
+    ...bin.filter((entry) => !ids.has(entry.student.id)),
+  ];
+}
+
+/**
+ * Time Complexity: O(n)
+ */
+export function removeFromRecycleBin(bin: IDeletedStudent[], ids: string[]): IDeletedStudent[] {
+  if (ids.length === 0) return bin;
+  const idsSet = new Set(ids);
+  return bin.filter((entry) => !idsSet.has(entry.student.id));
+}
+
+/**
+ * Entri yang sudah melewati masa retensi
+ * Time Complexity: O(n)
+ */
+export function findExpired(bin: IDeletedStudent[], retentionDays: number, now = Date.now()): IDeletedStudent[] {
+  if (retentionDays <= 0) return [];
+  const cutoff = now - retentionDays * DAY_MS;
+  return bin.filter((entry) => new Date(entry.deletedAt).getTime() < cutoff);
+}
+
+export function getRetentionDays(scopeKey: string): number {
+  const raw = localStorage.getItem(RETENTION_KEY_PREFIX + scopeKey);
+  const days = raw === null ? NaN : Number(raw);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+export function setRetentionDays(scopeKey: string, days: number): void {
+  localStorage.setItem(RETENTION_KEY_PREFIX + scopeKey, String(days));
+}
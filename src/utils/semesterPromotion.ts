@@ -0,0 +1,82 @@
+/**
+ * Semester Promotion - Kenaikan semester massal di akhir periode
+ *
+ * Setiap mahasiswa naik satu semester selama tidak melewati MAX_SEMESTER.
+ * Mahasiswa yang sudah di semester terakhir ditandai overdue (melewati batas
+ * masa studi) dan tidak diubah; mahasiswa tanpa hak ubah dilewati
+ */
+
+import { IStudent } from "@/models/Student";
+import { MAX_SEMESTER, validateSemester } from "@/utils/validation";
+
+export interface PromotionPlan {
+  promoted: { before: IStudent; after: IStudent }[];
+  overdue: IStudent[];
+  skipped: IStudent[];
+}
+
+export interface PromotionStep {
+  from: number;
+  to: number;
+  count: number;
+}
+
+/**
+ * Semester berikutnya, atau null jika melewati batas
+ * Time Complexity: O(1)
+ */
+export function nextSemester(semester: number): number | null {
+  const next = semester + 1;
+  return validateSemester(next).isValid ? next : null;
+}
+
+/**
+ * Susun rencana kenaikan semester tanpa mengubah data
+ * Time Complexity: O(n)
+ */
+export function planPromotion(
+  students: IStudent[],
+  canUpdate: (student: IStudent) => boolean
+): PromotionPlan {
+  const plan: PromotionPlan = { promoted: [], overdue: [], skipped: [] };
+
+  for (const student of students) {
+    if (!canUpdate(student)) {
+      plan.skipped.push(student);
+      continue;
+    }
+    const next = nextSemester(student.semester);
+    if (next === null) {
+      plan.overdue.push(student);
+    } else {
+      plan.promoted.push({ before: student, after: { ...student, semester: next } });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Jumlah mahasiswa per perpindahan semester, urut dari semester terendah
+ * Time Complexity: O(n + k log k)
+ */
+export function groupPromotionSteps(plan: PromotionPlan): PromotionStep[] {
+  const counts = new Map<number, number>();
+  plan.promoted.forEach(({ before }) => {
+    counts.set(before.semester, (counts.get(before.semester) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([from, count]) => ({ from, to: from + 1, count }));
+}
+
+/**
+ * Ringkasan satu baris untuk toast atau label riwayat
+ * Time Complexity: O(1)
+ */
+export function summarizePromotion(plan: PromotionPlan): string {
+  const parts = [`${plan.promoted.length} naik semester`];
+  if (plan.overdue.length > 0) parts.push(`${plan.overdue.length} overdue (semester ${MAX_SEMESTER})`);
+  if (plan.skipped.length > 0) parts.push(`${plan.skipped.length} dilewati`);
+  return parts.join(", ");
+}
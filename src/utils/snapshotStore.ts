@@ -0,0 +1,91 @@
+/**
+ * Snapshot Store - Riwayat versi data mahasiswa di IndexedDB
+ *
+ * Penyimpanan yang mengubah data menjadwalkan snapshot envelope { version, timestamp, count, data }.
+ * Snapshot ditulis paling sering sekali per SNAPSHOT_INTERVAL_MS per scope saat browser idle;
+ * penyimpanan di antaranya hanya mengganti envelope yang akan dicatat.
+ * Hanya MAX_SNAPSHOTS terakhir per scope yang disimpan.
+ */
+
+import { IStudent } from "@/models/Student";
+import { openDatabase, requestToPromise, transactionDone, SNAPSHOT_STORE } from "@/utils/indexedDB";
+
+export const MAX_SNAPSHOTS = 20;
+export const SNAPSHOT_INTERVAL_MS = 60_000;
+
+export interface StudentSnapshot {
+  id: number;
+  scopeKey: string;
+  version: string;
+  timestamp: string;
+  count: number;
+  data: IStudent[];
+}
+
+/**
+ * Ambil semua snapshot milik scope, terbaru lebih dulu
+ * Time Complexity: O(k log k) dimana k <= MAX_SNAPSHOTS
+ */
+export async function listSnapshots(scopeKey: string): Promise<StudentSnapshot[]> {
+  const db = await openDatabase();
+  const store = db.transaction(SNAPSHOT_STORE, "readonly").objectStore(SNAPSHOT_STORE);
+  const snapshots = await requestToPromise<StudentSnapshot[]>(
+    store.index("scopeKey").getAll(scopeKey)
+  );
+  return snapshots.sort((a, b) => b.id - a.id);
+}
+
+type SnapshotEnvelope = Omit<StudentSnapshot, "id" | "scopeKey">;
+
+// Envelope terbaru per scope yang belum dicatat, dan waktu snapshot terakhir ditulis
+const pendingSnapshots = new Map<string, SnapshotEnvelope>();
+const lastSnapshotAt = new Map<string, number>();
+
+function whenIdle(callback: () => void): void {
+  if (typeof requestIdleCallback === "function") requestIdleCallback(callback);
+  else setTimeout(callback, 0);
+}
+
+/**
+ * Catat snapshot baru lalu buang yang terlama melebihi batas
+ * Hanya key snapshot lama yang dibaca, bukan isinya
+ */
+async function writeSnapshot(scopeKey: string, envelope: SnapshotEnvelope): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SNAPSHOT_STORE, "readwrite");
+  const store = transaction.objectStore(SNAPSHOT_STORE);
+
+  const ids = await requestToPromise<IDBValidKey[]>(store.index("scopeKey").getAllKeys(scopeKey));
+  store.add({ ...envelope, scopeKey });
+  (ids as number[])
+    .sort((a, b) => b - a)
+    .slice(MAX_SNAPSHOTS - 1)
+    .forEach((id) => store.delete(id));
+
+  await transactionDone(transaction);
+}
+
+/**
+ * Jadwalkan snapshot untuk data yang baru disimpan
+ * Pemanggil hanya menjadwalkan bila data benar-benar berubah (hasil diff penyimpanan)
+ */
+export function scheduleSnapshot(scopeKey: string, envelope: SnapshotEnvelope): void {
+  const alreadyScheduled = pendingSnapshots.has(scopeKey);
+  pendingSnapshots.set(scopeKey, envelope);
+  if (alreadyScheduled) return;
+
+  const delay = Math.max(0, (lastSnapshotAt.get(scopeKey) ?? 0) + SNAPSHOT_INTERVAL_MS - Date.now());
+  setTimeout(() => whenIdle(() => {
+    const latest = pendingSnapshots.get(scopeKey);
+    pendingSnapshots.delete(scopeKey);
+    if (!latest) return;
+    lastSnapshotAt.set(scopeKey, Date.now());
+    writeSnapshot(scopeKey, latest).catch((error) => console.error("Error saving snapshot:", error));
+  }), delay);
+}
+
+export async function getSnapshot(id: number): Promise<StudentSnapshot | undefined> {
+  const db = await openDatabase();
+  const store = db.transaction(SNAPSHOT_STORE, "readonly").objectStore(SNAPSHOT_STORE);
+  return requestToPromise<StudentSnapshot | undefined>(store.get(id));
+}
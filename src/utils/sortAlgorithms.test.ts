@@ -0,0 +1,270 @@
+import { describe, expect, it } from "vitest";
+import { IStudent } from "@/models/Student";
+import {
+  Collation,
+  PivotStrategy,
+  SORT_ALGORITHM_IDS,
+  SortAlgorithmId,
+  SortField,
+  SortKey,
+  compareSortAlgorithms,
+  createComparator,
+  getSortAlgorithm,
+  unsupportedReason,
+} from "@/utils/sortAlgorithms";
+
+// Nilai sengaja sedikit agar banyak kunci yang sama (termasuk beda huruf besar/kecil dan diakritik)
+const NIMS = ["IF2", "IF10", "if2", "2021001", "2021001", "SI-07"];
+const NAMES = ["Budi", "budi", "Adi", "Ádi", "Siti Rahma"];
+const MAJORS = ["Teknik Informatika", "Sistem Informasi", "sistem informasi"];
+const IPKS = [2.75, 3.5, 3.5, 4];
+
+const FIELDS: SortField[] = ["nim", "nama", "jurusan", "semester", "ipk"];
+const COLLATIONS: Collation[] = ["locale", "code"];
+const PIVOTS: PivotStrategy[] = ["first", "median-of-three", "random"];
+const RUNS = 40;
+
+// PRNG dengan seed tetap agar kegagalan bisa diulang
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(values: T[], random: () => number): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+function randomStudents(random: () => number): IStudent[] {
+  const length = Math.floor(random() * 30);
+  return Array.from({ length }, (_, i) => ({
+    id: `s${i}`,
+    nim: pick(NIMS, random),
+    nama: pick(NAMES, random),
+    email: `s${i}@student.ac.id`,
+    jurusan: pick(MAJORS, random),
+    semester: 1 + Math.floor(random() * 4),
+    ipk: pick(IPKS, random),
+    tanggalMasuk: "2022-08-29",
+  }));
+}
+
+function randomKeys(random: () => number): SortKey[] {
+  const [primary, ...rest] = [...FIELDS].sort(() => random() - 0.5);
+  const secondary = rest.slice(0, Math.floor(random() * 3));
+  return [primary, ...secondary].map((field) => ({ field, order: random() < 0.5 ? "asc" : "desc" }));
+}
+
+// Kunci utama dipaksa ke field yang didukung algoritma (counting: semester, radix: nim)
+function keysFor(id: SortAlgorithmId, random: () => number): SortKey[] {
+  const keys = randomKeys(random);
+  const { fields } = getSortAlgorithm(id);
+  if (!fields) return keys;
+  const primary = fields[0];
+  return [
+    { field: primary, order: keys[0].order },
+    ...keys.filter((key) => key.field !== primary).slice(0, 2),
+  ];
+}
+
+// Mode perbandingan yang didukung algoritma (radix hanya kode karakter)
+function collationsOf(id: SortAlgorithmId): Collation[] {
+  return getSortAlgorithm(id).collations ?? COLLATIONS;
+}
+
+describe.each(SORT_ALGORITHM_IDS)("%s", (id) => {
+  const algorithm = getSortAlgorithm(id);
+  const pivots = algorithm.pivot ? PIVOTS : [undefined];
+
+  it.each(collationsOf(id))("urutannya sama dengan createComparator (collation %s)", (collation) => {
+    const random = createRandom(SORT_ALGORITHM_IDS.indexOf(id) * 100 + COLLATIONS.indexOf(collation));
+
+    for (let run = 0; run < RUNS; run++) {
+      const students = randomStudents(random);
+      const keys = keysFor(id, random);
+      const compare = createComparator(keys, collation);
+      const expected = [...students].sort(compare);
+
+      pivots.forEach((pivotStrategy) => {
+        const { sortedData } = algorithm.sort(students, keys, "asc", { collation, pivotStrategy });
+
+        expect(sortedData.map((s) => s.id).sort()).toEqual(students.map((s) => s.id).sort());
+        sortedData.forEach((student, i) => {
+          expect(compare(student, expected[i]), JSON.stringify({ keys, i })).toBe(0);
+        });
+      });
+    }
+  });
+});
+
+describe.each(SORT_ALGORITHM_IDS.filter((id) => getSortAlgorithm(id).stable))("%s (stabil)", (id) => {
+  const algorithm = getSortAlgorithm(id);
+
+  it.each(collationsOf(id))("mempertahankan urutan semula untuk kunci yang sama (collation %s)", (collation) => {
+    const random = createRandom(SORT_ALGORITHM_IDS.indexOf(id) * 100 + 50 + COLLATIONS.indexOf(collation));
+
+    for (let run = 0; run < RUNS; run++) {
+      const students = randomStudents(random);
+      const keys = keysFor(id, random);
+      // Array.prototype.sort stabil sejak ES2019, jadi menjadi acuan urutan
+      const expected = [...students].sort(createComparator(keys, collation));
+      const { sortedData, stable } = algorithm.sort(students, keys, "asc", { collation });
+
+      expect(stable).toBe(true);
+      expect(sortedData.map((s) => s.id), JSON.stringify(keys)).toEqual(expected.map((s) => s.id));
+    }
+  });
+});
+
+describe("compareSortAlgorithms", () => {
+  it("tetap menjalankan radix untuk NIM di mode bahasa dengan perbandingan kode karakter", () => {
+    const students = randomStudents(createRandom(7));
+    const results = compareSortAlgorithms(students, "nim", "asc");
+
+    expect(results.radix?.algorithm).toBe("Radix Sort (LSD) · Kode karakter");
+    expect(results.radix?.sortedData.map((s) => s.id)).toEqual(
+      getSortAlgorithm("radix").sort(students, "nim", "asc", { collation: "code" }).sortedData.map((s) => s.id)
+    );
+    expect(results.merge?.algorithm).toBe("Merge Sort");
+    expect(results.counting).toBeUndefined();
+  });
+});
+
+describe("SORT_ALGORITHMS", () => {
+  it.each(SORT_ALGORITHM_IDS)("%s mengisi metadata hasil dari registry", (id) => {
+    const { name, timeComplexity, spaceComplexity, stable, sort, collations } = getSortAlgorithm(id);
+    const result = sort(randomStudents(createRandom(11)), keysFor(id, createRandom(13)), "asc", {
+      collation: collations?.[0],
+    });
+
+    expect(result.algorithm.startsWith(name)).toBe(true);
+    expect(result).toMatchObject({ timeComplexity, spaceComplexity, stable });
+  });
+});
+
+describe("unsupportedReason", () => {
+  it("menjelaskan kenapa algoritma khusus tidak bisa dipakai", () => {
+    expect(unsupportedReason("radix", "nim", "locale")).toBe("hanya untuk perbandingan Kode karakter");
+    expect(unsupportedReason("radix", "nama", "code")).toBe("kunci urutan utama harus nim");
+    expect(unsupportedReason("counting", [{ field: "semester", order: "desc" }])).toBeNull();
+    expect(unsupportedReason("merge", "nama")).toBeNull();
+  });
+});
+
+// Data kecil dengan kunci kembar untuk kasus per algoritma (id mencerminkan urutan semula)
+function student(id: string, nim: string, semester: number, ipk: number): IStudent {
+  return {
+    id,
+    nim,
+    nama: `Mahasiswa ${id}`,
+    email: `${id}@student.ac.id`,
+    jurusan: "Teknik Informatika",
+    semester,
+    ipk,
+    tanggalMasuk: "2022-08-29",
+  };
+}
+
+const SAMPLE = [
+  student("a", "IF10", 3, 3.5),
+  student("b", "IF2", 1, 3.9),
+  student("c", "IF1", 3, 2.75),
+  student("d", "IF2", 5, 3.5),
+  student("e", "2021001", 1, 4),
+  student("f", "IF10", 3, 3.5),
+];
+
+const ids = (students: IStudent[]) => students.map((s) => s.id);
+
+describe.each(["quick", "heap", "counting", "radix"] as const)("%s: data kosong dan satu elemen", (id) => {
+  const { sort, fields, collations } = getSortAlgorithm(id);
+  const field = fields?.[0] ?? "ipk";
+  const collation = collations?.[0];
+
+  it("mengembalikan array kosong tanpa perbandingan", () => {
+    const result = sort([], field, "asc", { collation });
+    expect(result.sortedData).toEqual([]);
+    expect(result.comparisons).toBe(0);
+  });
+
+  it("mengembalikan satu elemen apa adanya", () => {
+    expect(ids(sort([SAMPLE[0]], field, "desc", { collation }).sortedData)).toEqual(["a"]);
+  });
+});
+
+describe("quickSort", () => {
+  const { sort } = getSortAlgorithm("quick");
+
+  it.each(PIVOTS)("mengurutkan data dengan kunci kembar (pivot %s)", (pivotStrategy) => {
+    const asc = sort(SAMPLE, "ipk", "asc", { pivotStrategy }).sortedData;
+    const desc = sort(SAMPLE, "semester", "desc", { pivotStrategy }).sortedData;
+
+    expect(asc.map((s) => s.ipk)).toEqual([2.75, 3.5, 3.5, 3.5, 3.9, 4]);
+    expect(desc.map((s) => s.semester)).toEqual([5, 3, 3, 3, 1, 1]);
+  });
+
+  it.each(PIVOTS)("menangani data terurut, terbalik, dan semua sama (pivot %s)", (pivotStrategy) => {
+    const sorted = [...SAMPLE].sort((a, b) => a.ipk - b.ipk);
+    const same = SAMPLE.map((s) => ({ ...s, ipk: 3 }));
+
+    expect(sort(sorted, "ipk", "asc", { pivotStrategy }).sortedData.map((s) => s.ipk)).toEqual(sorted.map((s) => s.ipk));
+    expect(sort([...sorted].reverse(), "ipk", "asc", { pivotStrategy }).sortedData.map((s) => s.ipk)).toEqual(
+      sorted.map((s) => s.ipk)
+    );
+    expect(sort(same, "ipk", "asc", { pivotStrategy }).sortedData).toHaveLength(SAMPLE.length);
+  });
+
+  it("mencantumkan strategi pivot di nama algoritma", () => {
+    expect(sort(SAMPLE, "ipk", "asc", { pivotStrategy: "first" }).algorithm).toBe("Quick Sort (pivot elemen pertama)");
+  });
+});
+
+describe("heapSort", () => {
+  const { sort } = getSortAlgorithm("heap");
+
+  it("mengurutkan data dengan kunci kembar naik dan turun", () => {
+    expect(sort(SAMPLE, "semester", "asc").sortedData.map((s) => s.semester)).toEqual([1, 1, 3, 3, 3, 5]);
+    expect(sort(SAMPLE, "ipk", "desc").sortedData.map((s) => s.ipk)).toEqual([4, 3.9, 3.5, 3.5, 3.5, 2.75]);
+  });
+});
+
+describe("countingSort", () => {
+  const { sort } = getSortAlgorithm("counting");
+
+  it("stabil untuk semester yang sama, naik maupun turun", () => {
+    expect(ids(sort(SAMPLE, "semester", "asc").sortedData)).toEqual(["b", "e", "a", "c", "f", "d"]);
+    expect(ids(sort(SAMPLE, "semester", "desc").sortedData)).toEqual(["d", "a", "c", "f", "b", "e"]);
+  });
+
+  it("memakai kunci sekunder untuk semester yang sama", () => {
+    const keys: SortKey[] = [{ field: "semester", order: "asc" }, { field: "ipk", order: "desc" }];
+    expect(ids(sort(SAMPLE, keys).sortedData)).toEqual(["e", "b", "a", "f", "c", "d"]);
+  });
+
+  it("menolak field selain semester", () => {
+    expect(() => sort(SAMPLE, "nama", "asc")).toThrow("Counting Sort hanya mendukung field semester");
+  });
+});
+
+describe("radixSort", () => {
+  const { sort } = getSortAlgorithm("radix");
+
+  it("mengurutkan NIM per kode karakter dan stabil untuk NIM kembar", () => {
+    // Per karakter: "IF1" sebelum "IF10" (lebih pendek), "IF10" sebelum "IF2"
+    expect(ids(sort(SAMPLE, "nim", "asc", { collation: "code" }).sortedData)).toEqual(["e", "c", "a", "f", "b", "d"]);
+    expect(ids(sort(SAMPLE, "nim", "desc", { collation: "code" }).sortedData)).toEqual(["b", "d", "a", "f", "c", "e"]);
+  });
+
+  it("hanya berjalan dengan perbandingan kode karakter", () => {
+    expect(() => sort(SAMPLE, "nim", "asc")).toThrow("Radix Sort hanya mendukung perbandingan kode karakter");
+    expect(() => sort(SAMPLE, "nim", "asc", { collation: "locale" })).toThrow("kode karakter");
+  });
+
+  it("menolak field selain nim", () => {
+    expect(() => sort(SAMPLE, "nama", "asc", { collation: "code" })).toThrow("Radix Sort hanya mendukung field nim");
+  });
+});
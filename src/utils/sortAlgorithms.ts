@@ -1,6 +1,7 @@
 /**
  * Sorting Algorithms - Implementasi berbagai algoritma pengurutan
  * Dengan estimasi Time Complexity
+ * Setiap algoritma menerima satu field atau daftar kunci komposit (SortKey[])
  */
 
 import { IStudent } from "@/models/Student";
@@ -8,6 +9,44 @@ import { IStudent } from "@/models/Student";
 export type SortField = "nim" | "nama" | "jurusan" | "semester" | "ipk";
 export type SortOrder = "asc" | "desc";
 
+// Satu kunci pengurutan; beberapa kunci membentuk urutan komposit
+export interface SortKey {
+  field: SortField;
+  order: SortOrder;
+}
+
+// Negatif jika a harus di depan b, positif jika sebaliknya, 0 jika sama
+export type StudentComparator = (a: IStudent, b: IStudent) => number;
+
+// Cara membandingkan teks: aturan bahasa (Intl.Collator) atau kode karakter
+export type Collation = "locale" | "code";
+
+export const COLLATION_LABELS: Record<Collation, string> = {
+  locale: "Bahasa Indonesia",
+  code: "Kode karakter",
+};
+
+export const DEFAULT_COLLATION: Collation = "locale";
+
+// Satu langkah algoritma untuk visualisasi; indeks merujuk ke posisi di array yang diurutkan
+export type SortEvent =
+  | { type: "compare"; i: number; j: number }
+  | { type: "swap"; i: number; j: number }
+  // Salin elemen di posisi from ke posisi to (insertion/shell sort)
+  | { type: "shift"; from: number; to: number }
+  // Tempatkan elemen hasil penggabungan (merge sort)
+  | { type: "merge"; index: number; id: string }
+  // Tempatkan elemen di posisinya (key insertion, counting, radix)
+  | { type: "write"; index: number; id: string };
+
+export interface SortOptions {
+  pivotStrategy?: PivotStrategy;
+  collation?: Collation;
+  // Jika diisi, setiap langkah algoritma dicatat ke array ini
+  trace?: SortEvent[];
+}
+
+// Nama, kompleksitas, dan stabilitas diisi dari registry SORT_ALGORITHMS
 export interface SortResult {
   sortedData: IStudent[];
   comparisons: number;
@@ -19,6 +58,8 @@ export interface SortResult {
   };
   spaceComplexity: string;
   algorithm: string;
+  // Data dengan kunci sama tetap dalam urutan semula
+  stable: boolean;
 }
 
 /**
@@ -31,12 +72,14 @@ export interface SortResult {
  */
 export function bubbleSort(
   students: IStudent[],
-  field: SortField,
-  order: SortOrder = "asc"
+  field: SortField | SortKey[],
+  order: SortOrder = "asc",
+  options: SortOptions = {}
 ): SortResult {
   const data = [...students];
   let comparisons = 0;
   let swaps = 0;
+  const compare = createComparator(toSortKeys(field, order), options.collation);
   const n = data.length;
   
   // Outer loop - O(n)
@@ -47,15 +90,14 @@ export function bubbleSort(
     // Total: O(n²)
     for (let j = 0; j < n - i - 1; j++) {
       comparisons++;
+      options.trace?.push({ type: "compare", i: j, j: j + 1 });
       
-      const a = getFieldValue(data[j], field);
-      const b = getFieldValue(data[j + 1], field);
-      
-      const shouldSwap = order === "asc" ? a > b : a < b;
+      const shouldSwap = compare(data[j], data[j + 1]) > 0;
       
       if (shouldSwap) {
         // Swap menggunakan destructuring
         [data[j], data[j + 1]] = [data[j + 1], data[j]];
+        options.trace?.push({ type: "swap", i: j, j: j + 1 });
         swaps++;
         swapped = true;
       }
@@ -65,18 +107,7 @@ export function bubbleSort(
     if (!swapped) break;
   }
   
-  return {
-    sortedData: data,
-    comparisons,
-    swaps,
-    timeComplexity: {
-      best: "O(n)",      // Sudah terurut
-      average: "O(n²)",
-      worst: "O(n²)",    // Terurut terbalik
-    },
-    spaceComplexity: "O(1)",
-    algorithm: "Bubble Sort",
-  };
+  return sortResult("bubble", { sortedData: data, comparisons, swaps });
 }
 
 /**
@@ -88,12 +119,14 @@ export function bubbleSort(
  */
 export function selectionSort(
   students: IStudent[],
-  field: SortField,
-  order: SortOrder = "asc"
+  field: SortField | SortKey[],
+  order: SortOrder = "asc",
+  options: SortOptions = {}
 ): SortResult {
   const data = [...students];
   let comparisons = 0;
   let swaps = 0;
+  const compare = createComparator(toSortKeys(field, order), options.collation);
   const n = data.length;
   
   // Outer loop - O(n)
@@ -104,11 +137,9 @@ export function selectionSort(
     // Total: O(n²)
     for (let j = i + 1; j < n; j++) {
       comparisons++;
+      options.trace?.push({ type: "compare", i: j, j: selectedIdx });
       
-      const selected = getFieldValue(data[selectedIdx], field);
-      const current = getFieldValue(data[j], field);
-      
-      const shouldSelect = order === "asc" ? current < selected : current > selected;
+      const shouldSelect = compare(data[j], data[selectedIdx]) < 0;
       
       if (shouldSelect) {
         selectedIdx = j;
@@ -118,22 +149,12 @@ export function selectionSort(
     // Swap hanya jika diperlukan
     if (selectedIdx !== i) {
       [data[i], data[selectedIdx]] = [data[selectedIdx], data[i]];
+      options.trace?.push({ type: "swap", i, j: selectedIdx });
       swaps++;
     }
   }
   
-  return {
-    sortedData: data,
-    comparisons,
-    swaps,
-    timeComplexity: {
-      best: "O(n²)",
-      average: "O(n²)",
-      worst: "O(n²)",
-    },
-    spaceComplexity: "O(1)",
-    algorithm: "Selection Sort",
-  };
+  return sortResult("selection", { sortedData: data, comparisons, swaps });
 }
 
 /**
@@ -145,28 +166,30 @@ export function selectionSort(
  */
 export function insertionSort(
   students: IStudent[],
-  field: SortField,
-  order: SortOrder = "asc"
+  field: SortField | SortKey[],
+  order: SortOrder = "asc",
+  options: SortOptions = {}
 ): SortResult {
   const data = [...students];
   let comparisons = 0;
   let swaps = 0;
+  const compare = createComparator(toSortKeys(field, order), options.collation);
   const n = data.length;
   
   for (let i = 1; i < n; i++) {
     const key = data[i];
-    const keyValue = getFieldValue(key, field);
     let j = i - 1;
     
     // Geser elemen yang lebih besar dari key
     while (j >= 0) {
       comparisons++;
-      const currentValue = getFieldValue(data[j], field);
+      options.trace?.push({ type: "compare", i: j, j: j + 1 });
       
-      const shouldShift = order === "asc" ? currentValue > keyValue : currentValue < keyValue;
+      const shouldShift = compare(data[j], key) > 0;
       
       if (shouldShift) {
         data[j + 1] = data[j];
+        options.trace?.push({ type: "shift", from: j, to: j + 1 });
         swaps++;
         j--;
       } else {
@@ -175,20 +198,10 @@ export function insertionSort(
     }
     
     data[j + 1] = key;
+    if (j + 1 !== i) options.trace?.push({ type: "write", index: j + 1, id: key.id });
   }
   
-  return {
-    sortedData: data,
-    comparisons,
-    swaps,
-    timeComplexity: {
-      best: "O(n)",      // Sudah terurut
-      average: "O(n²)",
-      worst: "O(n²)",    // Terurut terbalik
-    },
-    spaceComplexity: "O(1)",
-    algorithm: "Insertion Sort",
-  };
+  return sortResult("insertion", { sortedData: data, comparisons, swaps });
 }
 
 /**
@@ -200,29 +213,31 @@ export function insertionSort(
  */
 export function shellSort(
   students: IStudent[],
-  field: SortField,
-  order: SortOrder = "asc"
+  field: SortField | SortKey[],
+  order: SortOrder = "asc",
+  options: SortOptions = {}
 ): SortResult {
   const data = [...students];
   let comparisons = 0;
   let swaps = 0;
+  const compare = createComparator(toSortKeys(field, order), options.collation);
   const n = data.length;
   
   // Mulai dengan gap besar, kemudian kurangi
   for (let gap = Math.floor(n / 2); gap > 0; gap = Math.floor(gap / 2)) {
     for (let i = gap; i < n; i++) {
       const temp = data[i];
-      const tempValue = getFieldValue(temp, field);
       let j = i;
       
       while (j >= gap) {
         comparisons++;
-        const compareValue = getFieldValue(data[j - gap], field);
+        options.trace?.push({ type: "compare", i: j - gap, j });
         
-        const shouldShift = order === "asc" ? compareValue > tempValue : compareValue < tempValue;
+        const shouldShift = compare(data[j - gap], temp) > 0;
         
         if (shouldShift) {
           data[j] = data[j - gap];
+          options.trace?.push({ type: "shift", from: j - gap, to: j });
           swaps++;
           j -= gap;
         } else {
@@ -231,21 +246,11 @@ export function shellSort(
       }
       
       data[j] = temp;
+      if (j !== i) options.trace?.push({ type: "write", index: j, id: temp.id });
     }
   }
   
-  return {
-    sortedData: data,
-    comparisons,
-    swaps,
-    timeComplexity: {
-      best: "O(n log n)",
-      average: "O(n log²n)",
-      worst: "O(n²)",
-    },
-    spaceComplexity: "O(1)",
-    algorithm: "Shell Sort",
-  };
+  return sortResult("shell", { sortedData: data, comparisons, swaps });
 }
 
 /**
@@ -257,61 +262,356 @@ export function shellSort(
  */
 export function mergeSort(
   students: IStudent[],
-  field: SortField,
-  order: SortOrder = "asc"
+  field: SortField | SortKey[],
+  order: SortOrder = "asc",
+  options: SortOptions = {}
 ): SortResult {
   let comparisons = 0;
   let swaps = 0;
+  const compare = createComparator(toSortKeys(field, order), options.collation);
   
-  function merge(left: IStudent[], right: IStudent[]): IStudent[] {
+  // offset: posisi awal potongan ini di array utuh (untuk trace)
+  function merge(left: IStudent[], right: IStudent[], offset: number): IStudent[] {
     const result: IStudent[] = [];
     let leftIdx = 0;
     let rightIdx = 0;
+    const place = (student: IStudent) => {
+      options.trace?.push({ type: "merge", index: offset + result.length, id: student.id });
+      result.push(student);
+    };
     
     while (leftIdx < left.length && rightIdx < right.length) {
       comparisons++;
-      const leftValue = getFieldValue(left[leftIdx], field);
-      const rightValue = getFieldValue(right[rightIdx], field);
+      options.trace?.push({ type: "compare", i: offset + leftIdx, j: offset + left.length + rightIdx });
       
-      const leftFirst = order === "asc" ? leftValue <= rightValue : leftValue >= rightValue;
+      // <= menjaga urutan data yang sama (stabil)
+      const leftFirst = compare(left[leftIdx], right[rightIdx]) <= 0;
       
       if (leftFirst) {
-        result.push(left[leftIdx]);
+        place(left[leftIdx]);
         leftIdx++;
       } else {
-        result.push(right[rightIdx]);
+        place(right[rightIdx]);
         rightIdx++;
       }
       swaps++;
     }
     
-    return result.concat(left.slice(leftIdx)).concat(right.slice(rightIdx));
+    left.slice(leftIdx).forEach(place);
+    right.slice(rightIdx).forEach(place);
+    return result;
   }
   
-  function sort(arr: IStudent[]): IStudent[] {
+  function sort(arr: IStudent[], offset: number): IStudent[] {
     if (arr.length <= 1) return arr;
     
     const mid = Math.floor(arr.length / 2);
-    const left = sort(arr.slice(0, mid));
-    const right = sort(arr.slice(mid));
+    const left = sort(arr.slice(0, mid), offset);
+    const right = sort(arr.slice(mid), offset + mid);
     
-    return merge(left, right);
+    return merge(left, right, offset);
   }
   
-  const sortedData = sort([...students]);
+  const sortedData = sort([...students], 0);
   
-  return {
-    sortedData,
-    comparisons,
-    swaps,
-    timeComplexity: {
-      best: "O(n log n)",
-      average: "O(n log n)",
-      worst: "O(n log n)",
-    },
-    spaceComplexity: "O(n)",
-    algorithm: "Merge Sort",
+  return sortResult("merge", { sortedData, comparisons, swaps });
+}
+
+export type PivotStrategy = "first" | "median-of-three" | "random";
+
+export const PIVOT_STRATEGY_LABELS: Record<PivotStrategy, string> = {
+  first: "elemen pertama",
+  "median-of-three": "median of three",
+  random: "acak",
+};
+
+/**
+ * Quick Sort
+ * Time Complexity: O(n log n) rata-rata, O(n²) terburuk
+ * Space Complexity: O(log n) untuk stack rekursi
+ * 
+ * Divide-and-conquer dengan partisi tiga arah (kurang, sama, lebih dari pivot)
+ * agar data dengan banyak nilai sama (misalnya semester) tetap efisien
+ */
+export function quickSort(
+  students: IStudent[],
+  field: SortField | SortKey[],
+  order: SortOrder = "asc",
+  options: SortOptions = {}
+): SortResult {
+  const pivotStrategy = options.pivotStrategy ?? "median-of-three";
+  const data = [...students];
+  let comparisons = 0;
+  let swaps = 0;
+  
+  const compare = createComparator(toSortKeys(field, order), options.collation);
+  const compareAt = (i: number, j: number): number => {
+    comparisons++;
+    options.trace?.push({ type: "compare", i, j });
+    return compare(data[i], data[j]);
+  };
+  
+  const swap = (i: number, j: number) => {
+    if (i === j) return;
+    [data[i], data[j]] = [data[j], data[i]];
+    options.trace?.push({ type: "swap", i, j });
+    swaps++;
+  };
+  
+  // Pilih indeks pivot sesuai strategi
+  const choosePivot = (lo: number, hi: number): number => {
+    if (pivotStrategy === "first") return lo;
+    if (pivotStrategy === "random") return lo + Math.floor(Math.random() * (hi - lo + 1));
+    
+    const mid = lo + Math.floor((hi - lo) / 2);
+    if (compareAt(lo, mid) < 0) {
+      if (compareAt(mid, hi) < 0) return mid;
+      return compareAt(lo, hi) < 0 ? hi : lo;
+    }
+    if (compareAt(lo, hi) < 0) return lo;
+    return compareAt(mid, hi) < 0 ? hi : mid;
   };
+  
+  function sort(lo: number, hi: number) {
+    // Rekursi pada bagian yang lebih kecil, perulangan pada bagian yang lebih besar
+    while (lo < hi) {
+      swap(lo, choosePivot(lo, hi));
+      
+      // data[lo..lt-1] < pivot, data[lt..i-1] = pivot, data[gt+1..hi] > pivot
+      // data[lt] selalu bernilai sama dengan pivot
+      let lt = lo;
+      let gt = hi;
+      let i = lo + 1;
+      while (i <= gt) {
+        const cmp = compareAt(i, lt);
+        if (cmp < 0) swap(lt++, i++);
+        else if (cmp > 0) swap(i, gt--);
+        else i++;
+      }
+      
+      if (lt - lo < hi - gt) {
+        sort(lo, lt - 1);
+        lo = gt + 1;
+      } else {
+        sort(gt + 1, hi);
+        hi = lt - 1;
+      }
+    }
+  }
+  
+  sort(0, data.length - 1);
+  
+  return sortResult(
+    "quick",
+    { sortedData: data, comparisons, swaps },
+    `${SORT_ALGORITHMS.quick.name} (pivot ${PIVOT_STRATEGY_LABELS[pivotStrategy]})`
+  );
+}
+
+/**
+ * Heap Sort
+ * Time Complexity: O(n log n)
+ * Space Complexity: O(1)
+ * 
+ * Membangun binary heap lalu memindahkan akar heap ke akhir array satu per satu
+ */
+export function heapSort(
+  students: IStudent[],
+  field: SortField | SortKey[],
+  order: SortOrder = "asc",
+  options: SortOptions = {}
+): SortResult {
+  const data = [...students];
+  let comparisons = 0;
+  let swaps = 0;
+  const n = data.length;
+  
+  const compare = createComparator(toSortKeys(field, order), options.collation);
+  
+  // Heap dengan elemen "terbesar" menurut comparator di akar
+  const higher = (i: number, j: number): boolean => {
+    comparisons++;
+    options.trace?.push({ type: "compare", i, j });
+    return compare(data[i], data[j]) > 0;
+  };
+  
+  // Turunkan elemen di root hingga sifat heap terpenuhi - O(log n)
+  const siftDown = (root: number, size: number) => {
+    while (true) {
+      const left = 2 * root + 1;
+      const right = left + 1;
+      let top = root;
+      
+      if (left < size && higher(left, top)) top = left;
+      if (right < size && higher(right, top)) top = right;
+      if (top === root) return;
+      
+      [data[root], data[top]] = [data[top], data[root]];
+      options.trace?.push({ type: "swap", i: root, j: top });
+      swaps++;
+      root = top;
+    }
+  };
+  
+  // Bangun heap - O(n)
+  for (let i = Math.floor(n / 2) - 1; i >= 0; i--) {
+    siftDown(i, n);
+  }
+  
+  // Ambil akar satu per satu - O(n log n)
+  for (let end = n - 1; end > 0; end--) {
+    [data[0], data[end]] = [data[end], data[0]];
+    options.trace?.push({ type: "swap", i: 0, j: end });
+    swaps++;
+    siftDown(0, end);
+  }
+  
+  return sortResult("heap", { sortedData: data, comparisons, swaps });
+}
+
+/**
+ * Counting Sort (khusus field semester)
+ * Time Complexity: O(n + k) dimana k adalah rentang nilai semester
+ * Space Complexity: O(n + k)
+ * 
+ * Tanpa perbandingan: hitung frekuensi setiap semester, lalu tempatkan data
+ * sesuai posisi kumulatifnya. Stabil (urutan data dengan semester sama tetap)
+ * 
+ * Semester harus menjadi kunci utama; kunci sekunder diurutkan lebih dulu
+ * dengan merge sort (stabil) sehingga urutannya terjaga di dalam setiap semester
+ */
+export function countingSort(
+  students: IStudent[],
+  field: SortField | SortKey[],
+  order: SortOrder = "asc",
+  options: SortOptions = {}
+): SortResult {
+  const [primary, ...secondary] = toSortKeys(field, order);
+  if (primary?.field !== "semester") {
+    throw new Error("Counting Sort hanya mendukung field semester");
+  }
+  
+  const presorted = presortSecondary(students, secondary, options);
+  const source = presorted.sortedData;
+  const n = source.length;
+  let swaps = presorted.swaps;
+  const values = source.map((s) => s.semester);
+  const min = values.reduce((lo, v) => Math.min(lo, v), values[0] ?? 0);
+  const max = values.reduce((hi, v) => Math.max(hi, v), values[0] ?? 0);
+  
+  // Posisi bucket dibalik untuk descending agar tetap stabil
+  const bucketOf = (value: number) => (primary.order === "asc" ? value - min : max - value);
+  
+  // Hitung frekuensi - O(n)
+  const counts = new Array(max - min + 1).fill(0);
+  values.forEach((value) => counts[bucketOf(value)]++);
+  
+  // Prefix sum: posisi akhir setiap bucket - O(k)
+  for (let i = 1; i < counts.length; i++) {
+    counts[i] += counts[i - 1];
+  }
+  
+  // Tempatkan dari belakang agar stabil - O(n)
+  const sortedData: IStudent[] = new Array(n);
+  for (let i = n - 1; i >= 0; i--) {
+    const index = --counts[bucketOf(values[i])];
+    sortedData[index] = source[i];
+    options.trace?.push({ type: "write", index, id: source[i].id });
+    swaps++;
+  }
+  
+  return sortResult("counting", { sortedData, comparisons: presorted.comparisons, swaps });
+}
+
+/**
+ * Radix Sort LSD (khusus field nim)
+ * Time Complexity: O(d · (n + k)) dimana d adalah panjang NIM terpanjang
+ * dan k adalah jumlah karakter berbeda
+ * Space Complexity: O(n + k)
+ * 
+ * Counting sort stabil per karakter, dimulai dari karakter paling kanan.
+ * NIM yang lebih pendek dianggap diisi karakter kosong di kanan sehingga
+ * hasilnya sama dengan urutan leksikografis
+ * 
+ * NIM harus menjadi kunci utama; kunci sekunder diurutkan lebih dulu (lihat Counting Sort)
+ * Hanya untuk perbandingan kode karakter, karena urutan per karakter tidak
+ * bisa mengikuti aturan bahasa maupun urutan angka (IF2 sebelum IF10)
+ */
+export function radixSort(
+  students: IStudent[],
+  field: SortField | SortKey[],
+  order: SortOrder = "asc",
+  options: SortOptions = {}
+): SortResult {
+  const [primary, ...secondary] = toSortKeys(field, order);
+  if (primary?.field !== "nim") {
+    throw new Error("Radix Sort hanya mendukung field nim");
+  }
+  if ((options.collation ?? DEFAULT_COLLATION) !== "code") {
+    throw new Error("Radix Sort hanya mendukung perbandingan kode karakter");
+  }
+  
+  const presorted = presortSecondary(students, secondary, options);
+  let data = presorted.sortedData;
+  let swaps = presorted.swaps;
+  const keys = new Map(data.map((s) => [s.id, getFieldValue(s, "nim") as string]));
+  let maxLength = 0;
+  let maxCode = 0;
+  keys.forEach((key) => {
+    maxLength = Math.max(maxLength, key.length);
+    for (let i = 0; i < key.length; i++) {
+      maxCode = Math.max(maxCode, key.charCodeAt(i));
+    }
+  });
+  
+  // Bucket 0 untuk posisi kosong, karakter mulai dari bucket 1
+  const bucketCount = maxCode + 2;
+  const bucketOf = (student: IStudent, position: number) => {
+    const key = keys.get(student.id)!;
+    const bucket = position < key.length ? key.charCodeAt(position) + 1 : 0;
+    return primary.order === "asc" ? bucket : bucketCount - 1 - bucket;
+  };
+  
+  // Satu pass counting sort per posisi karakter, dari kanan ke kiri
+  for (let position = maxLength - 1; position >= 0; position--) {
+    const counts = new Array(bucketCount).fill(0);
+    data.forEach((student) => counts[bucketOf(student, position)]++);
+    for (let i = 1; i < bucketCount; i++) {
+      counts[i] += counts[i - 1];
+    }
+    
+    const output: IStudent[] = new Array(data.length);
+    for (let i = data.length - 1; i >= 0; i--) {
+      const index = --counts[bucketOf(data[i], position)];
+      output[index] = data[i];
+      options.trace?.push({ type: "write", index, id: data[i].id });
+      swaps++;
+    }
+    data = output;
+  }
+  
+  return sortResult("radix", { sortedData: data, comparisons: presorted.comparisons, swaps });
+}
+
+/**
+ * Terapkan satu langkah trace ke urutan id (untuk memutar ulang visualisasi)
+ * Time Complexity: O(1)
+ */
+export function applySortEvent(ids: string[], event: SortEvent): void {
+  switch (event.type) {
+    case "swap":
+      [ids[event.i], ids[event.j]] = [ids[event.j], ids[event.i]];
+      break;
+    case "shift":
+      ids[event.to] = ids[event.from];
+      break;
+    case "merge":
+    case "write":
+      ids[event.index] = event.id;
+      break;
+    case "compare":
+      break;
+  }
 }
 
 // Helper function untuk mendapatkan nilai field
@@ -321,19 +621,249 @@ function getFieldValue(student: IStudent, field: SortField): string | number {
   return value.toString().toLowerCase();
 }
 
+/**
+ * Samakan parameter field tunggal dan daftar kunci komposit
+ * Time Complexity: O(1)
+ */
+export function toSortKeys(field: SortField | SortKey[], order: SortOrder = "asc"): SortKey[] {
+  return Array.isArray(field) ? field : [{ field, order }];
+}
+
+// Collator bahasa Indonesia: huruf besar/kecil dan diakritik dianggap sama (é = e);
+// NIM dibandingkan dengan angka utuh sehingga IF2 sebelum IF10
+const textCollator = new Intl.Collator("id", { sensitivity: "base" });
+const nimCollator = new Intl.Collator("id", { sensitivity: "base", numeric: true });
+
+// Bandingkan nilai satu field; angka selalu dibandingkan secara numerik
+function compareValues(student: IStudent, other: IStudent, field: SortField, collation: Collation): number {
+  const a = student[field];
+  const b = other[field];
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (collation === "locale") {
+    return (field === "nim" ? nimCollator : textCollator).compare(String(a), String(b));
+  }
+  const x = getFieldValue(student, field);
+  const y = getFieldValue(other, field);
+  return x === y ? 0 : x < y ? -1 : 1;
+}
+
+/**
+ * Rantai comparator: kunci berikutnya hanya dipakai jika kunci sebelumnya sama
+ * Time Complexity: O(k) per perbandingan, k = jumlah kunci
+ */
+export function createComparator(keys: SortKey[], collation: Collation = DEFAULT_COLLATION): StudentComparator {
+  return (a, b) => {
+    for (const { field, order } of keys) {
+      const result = compareValues(a, b, field, collation);
+      if (result === 0) continue;
+      return order === "asc" ? result : -result;
+    }
+    return 0;
+  };
+}
+
+// Urutkan kunci sekunder secara stabil sebelum pass non-komparasi pada kunci utama
+function presortSecondary(students: IStudent[], keys: SortKey[], options: SortOptions) {
+  if (keys.length === 0) return { sortedData: students, comparisons: 0, swaps: 0 };
+  return mergeSort(students, keys, "asc", options);
+}
+
+export interface SortAlgorithmDefinition {
+  name: string;
+  description: string;
+  timeComplexity: SortResult["timeComplexity"];
+  spaceComplexity: string;
+  stable: boolean;
+  // Field kunci utama yang didukung; tidak diisi berarti semua field
+  fields?: SortField[];
+  // Menerima pilihan strategi pivot
+  pivot?: boolean;
+  // Mode perbandingan teks yang didukung; tidak diisi berarti semua
+  collations?: Collation[];
+  sort: (
+    students: IStudent[],
+    field: SortField | SortKey[],
+    order?: SortOrder,
+    options?: SortOptions
+  ) => SortResult;
+}
+
+/**
+ * Registry algoritma pengurutan
+ * Dipakai pemilih algoritma di tabel dan kartu AlgorithmInfo; algoritma baru
+ * cukup ditambahkan di sini agar bisa dipilih dan terdokumentasi
+ */
+export const SORT_ALGORITHMS = {
+  bubble: {
+    name: "Bubble Sort",
+    description: "Menukar elemen berdekatan yang tidak terurut",
+    timeComplexity: {
+      best: "O(n)",      // Sudah terurut
+      average: "O(n²)",
+      worst: "O(n²)",    // Terurut terbalik
+    },
+    spaceComplexity: "O(1)",
+    stable: true,
+    sort: bubbleSort,
+  },
+  selection: {
+    name: "Selection Sort",
+    description: "Mencari minimum dan menempatkan di posisi yang benar",
+    timeComplexity: { best: "O(n²)", average: "O(n²)", worst: "O(n²)" },
+    spaceComplexity: "O(1)",
+    stable: false,
+    sort: selectionSort,
+  },
+  insertion: {
+    name: "Insertion Sort",
+    description: "Menyisipkan setiap elemen ke bagian yang sudah terurut",
+    timeComplexity: { best: "O(n)", average: "O(n²)", worst: "O(n²)" },
+    spaceComplexity: "O(1)",
+    stable: true,
+    sort: insertionSort,
+  },
+  shell: {
+    name: "Shell Sort",
+    description: "Insertion sort dengan jarak (gap) yang terus diperkecil",
+    timeComplexity: { best: "O(n log n)", average: "O(n log²n)", worst: "O(n²)" },
+    spaceComplexity: "O(1)",
+    stable: false,
+    sort: shellSort,
+  },
+  merge: {
+    name: "Merge Sort",
+    description: "Membagi data menjadi dua, mengurutkan, lalu menggabungkan",
+    timeComplexity: { best: "O(n log n)", average: "O(n log n)", worst: "O(n log n)" },
+    spaceComplexity: "O(n)",
+    stable: true,
+    sort: mergeSort,
+  },
+  quick: {
+    name: "Quick Sort",
+    description: "Mempartisi data terhadap pivot lalu mengurutkan tiap bagian",
+    timeComplexity: {
+      best: "O(n)",      // Semua nilai sama (partisi tiga arah)
+      average: "O(n log n)",
+      worst: "O(n²)",    // Pivot selalu nilai terkecil/terbesar
+    },
+    spaceComplexity: "O(log n)",
+    stable: false,
+    pivot: true,
+    sort: quickSort,
+  },
+  heap: {
+    name: "Heap Sort",
+    description: "Membangun binary heap lalu mengambil akarnya satu per satu",
+    timeComplexity: { best: "O(n log n)", average: "O(n log n)", worst: "O(n log n)" },
+    spaceComplexity: "O(1)",
+    stable: false,
+    sort: heapSort,
+  },
+  counting: {
+    name: "Counting Sort",
+    description: "Menghitung frekuensi setiap semester tanpa perbandingan",
+    timeComplexity: { best: "O(n + k)", average: "O(n + k)", worst: "O(n + k)" },
+    spaceComplexity: "O(n + k)",
+    stable: true,
+    fields: ["semester"],
+    sort: countingSort,
+  },
+  radix: {
+    name: "Radix Sort (LSD)",
+    description: "Counting sort per karakter NIM, dari karakter paling kanan",
+    timeComplexity: { best: "O(d · (n + k))", average: "O(d · (n + k))", worst: "O(d · (n + k))" },
+    spaceComplexity: "O(n + k)",
+    stable: true,
+    fields: ["nim"],
+    collations: ["code"],
+    sort: radixSort,
+  },
+} satisfies Record<string, SortAlgorithmDefinition>;
+
+export type SortAlgorithmId = keyof typeof SORT_ALGORITHMS;
+
+export const SORT_ALGORITHM_IDS = Object.keys(SORT_ALGORITHMS) as SortAlgorithmId[];
+
+export const DEFAULT_SORT_ALGORITHM: SortAlgorithmId = "bubble";
+
+/**
+ * Ambil definisi algoritma dari registry
+ * Time Complexity: O(1)
+ */
+export function getSortAlgorithm(id: SortAlgorithmId): SortAlgorithmDefinition {
+  return SORT_ALGORITHMS[id];
+}
+
+/**
+ * Lengkapi hasil pengurutan dengan nama dan kompleksitas dari registry
+ * Time Complexity: O(1)
+ */
+function sortResult(
+  id: SortAlgorithmId,
+  { sortedData, comparisons, swaps }: Pick<SortResult, "sortedData" | "comparisons" | "swaps">,
+  algorithm: string = SORT_ALGORITHMS[id].name
+): SortResult {
+  const { timeComplexity, spaceComplexity, stable } = SORT_ALGORITHMS[id];
+  return { sortedData, comparisons, swaps, timeComplexity, spaceComplexity, algorithm, stable };
+}
+
+/**
+ * Alasan algoritma tidak bisa dipakai untuk kunci utama dan mode perbandingan
+ * tertentu, atau null jika bisa dipakai
+ * Time Complexity: O(1)
+ */
+export function unsupportedReason(
+  id: SortAlgorithmId,
+  field: SortField | SortKey[],
+  collation: Collation = DEFAULT_COLLATION
+): string | null {
+  const { fields, collations } = getSortAlgorithm(id);
+  const primary = toSortKeys(field)[0];
+  if (collations && !collations.includes(collation)) {
+    return `hanya untuk perbandingan ${collations.map((c) => COLLATION_LABELS[c]).join(", ")}`;
+  }
+  if (fields && !(primary && fields.includes(primary.field))) {
+    return `kunci urutan utama harus ${fields.join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * Cek apakah algoritma bisa mengurutkan dengan field tertentu sebagai kunci utama
+ * dan dengan mode perbandingan yang dipilih
+ * Time Complexity: O(1)
+ */
+export function supportsField(
+  id: SortAlgorithmId,
+  field: SortField | SortKey[],
+  collation: Collation = DEFAULT_COLLATION
+): boolean {
+  return unsupportedReason(id, field, collation) === null;
+}
+
 /**
  * Compare sorting algorithms performance
+ * Hanya algoritma yang mendukung field tersebut yang dijalankan. Algoritma yang
+ * tidak mendukung mode perbandingan yang dipilih (radix di mode bahasa) tetap
+ * dijalankan dengan mode yang didukungnya, dan mode itu dicantumkan di nama algoritma
  */
 export function compareSortAlgorithms(
   students: IStudent[],
-  field: SortField,
-  order: SortOrder = "asc"
-): Record<string, SortResult> {
-  return {
-    bubble: bubbleSort(students, field, order),
-    selection: selectionSort(students, field, order),
-    insertion: insertionSort(students, field, order),
-    shell: shellSort(students, field, order),
-    merge: mergeSort(students, field, order),
-  };
+  field: SortField | SortKey[],
+  order: SortOrder = "asc",
+  options: SortOptions = {}
+): Partial<Record<SortAlgorithmId, SortResult>> {
+  const collation = options.collation ?? DEFAULT_COLLATION;
+  const results: Partial<Record<SortAlgorithmId, SortResult>> = {};
+  SORT_ALGORITHM_IDS.forEach((id) => {
+    const { collations, sort } = getSortAlgorithm(id);
+    const runCollation = !collations || collations.includes(collation) ? collation : collations[0];
+    if (!supportsField(id, field, runCollation)) return;
+
+    const result = sort(students, field, order, { ...options, collation: runCollation });
+    results[id] = runCollation === collation
+      ? result
+      : { ...result, algorithm: `${result.algorithm} · ${COLLATION_LABELS[runCollation]}` };
+  });
+  return results;
 }
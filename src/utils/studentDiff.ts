@@ -0,0 +1,85 @@
+/**
+ * Student Diff - Membandingkan data mahasiswa per field dan per dataset
+ */
+
+import { IStudent } from "@/models/Student";
+
+export type StudentField = Exclude<keyof IStudent, "id">;
+
+export const STUDENT_FIELD_LABELS: Record<StudentField, string> = {
+  nim: "NIM",
+  nama: "Nama",
+  email: "Email",
+  jurusan: "Jurusan",
+  semester: "Semester",
+  ipk: "IPK",
+  tanggalMasuk: "Tanggal Masuk",
+  dosenWaliId: "Dosen Wali",
+};
+
+export const STUDENT_FIELDS = Object.keys(STUDENT_FIELD_LABELS) as StudentField[];
+
+export interface FieldChange {
+  field: StudentField;
+  before: IStudent[StudentField] | null;
+  after: IStudent[StudentField] | null;
+}
+
+export interface StudentChange {
+  before: IStudent;
+  after: IStudent;
+  changes: FieldChange[];
+}
+
+export interface DatasetDiff {
+  added: IStudent[];
+  removed: IStudent[];
+  changed: StudentChange[];
+  unchanged: number;
+}
+
+/**
+ * Daftar field yang nilainya berbeda
+ * Time Complexity: O(f) dimana f adalah jumlah field
+ */
+export function diffStudentFields(before: IStudent, after: IStudent): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of STUDENT_FIELDS) {
+    const a = before[field] ?? null;
+    const b = after[field] ?? null;
+    if (a !== b) {
+      changes.push({ field, before: a, after: b });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Bandingkan dua dataset berdasarkan id
+ * Time Complexity: O(n + m) menggunakan hash map
+ */
+export function diffDatasets(from: IStudent[], to: IStudent[]): DatasetDiff {
+  const fromMap = new Map(from.map((s) => [s.id, s]));
+  const toIds = new Set(to.map((s) => s.id));
+  const added: IStudent[] = [];
+  const changed: StudentChange[] = [];
+  let unchanged = 0;
+
+  for (const student of to) {
+    const previous = fromMap.get(student.id);
+    if (!previous) {
+      added.push(student);
+      continue;
+    }
+    const changes = diffStudentFields(previous, student);
+    if (changes.length > 0) {
+      changed.push({ before: previous, after: student, changes });
+    } else {
+      unchanged++;
+    }
+  }
+
+  const removed = from.filter((s) => !toIds.has(s.id));
+
+  return { added, removed, changed, unchanged };
+}
@@ -0,0 +1,351 @@
+/**
+ * Student Repository - Penyimpanan data mahasiswa di Supabase Postgres
+ * Cache lokal (studentStorage.ts) tetap dipakai saat offline; mutasi dikirim
+ * lewat antrean sinkronisasi (syncQueue.ts) dengan pengecekan versi updated_at
+ *
+ * Setiap query dibatasi pada DataScope aktif (akun pribadi atau workspace prodi);
+ * Row Level Security di database memastikan batasan yang sama di sisi server
+ *
+ * Baris dari server divalidasi dengan skema yang sama dengan cache lokal
+ * (studentSchema.ts); baris yang tidak sesuai dikarantina, tidak dimuat
+ */
+
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { IStudent } from "@/models/Student";
+import { IDeletedStudent } from "@/models/DeletedStudent";
+import { DataScope } from "@/models/Workspace";
+import { partitionRecords, QuarantinedRecord } from "@/utils/studentSchema";
+
+type StudentRow = Tables<"students">;
+
+export interface RepositoryResult<T = void> {
+  success: boolean;
+  message: string;
+  data?: T;
+  // true jika gagal karena tidak ada koneksi (permintaan bisa diulang nanti)
+  offline?: boolean;
+}
+
+// updated_at terakhir yang diketahui per id mahasiswa
+export type StudentVersions = Record<string, string>;
+
+export interface VersionedStudent {
+  student: IStudent;
+  version: string;
+}
+
+// Pengguna lain yang sedang membuka daftar mahasiswa scope yang sama
+export interface PresenceViewer {
+  userId: string;
+  email: string | null;
+}
+
+export interface StudentRealtimeHandlers {
+  onUpsert: (row: VersionedStudent) => void;
+  // Baris dari server yang tidak sesuai skema
+  onQuarantine: (records: QuarantinedRecord[]) => void;
+  onDelete: (id: string) => void;
+  onPresence: (viewers: PresenceViewer[]) => void;
+}
+
+// Konversi baris database (snake_case) ke IStudent
+function fromRow(row: StudentRow): IStudent {
+  return {
+    id: row.id,
+    nim: row.nim,
+    nama: row.nama,
+    email: row.email,
+    jurusan: row.jurusan,
+    semester: row.semester,
+    ipk: Number(row.ipk),
+    tanggalMasuk: row.tanggal_masuk,
+    dosenWaliId: row.dosen_wali_id,
+  };
+}
+
+// Konversi IStudent ke baris database milik scope tertentu
+// IPK tidak dikirim: server selalu menghitungnya dari nilai (computed_ipk)
+function toRow(student: IStudent, scope: DataScope): TablesInsert<"students"> {
+  return {
+    id: student.id,
+    user_id: scope.userId,
+    workspace_id: scope.workspaceId,
+    nim: student.nim,
+    nama: student.nama,
+    email: student.email,
+    jurusan: student.jurusan,
+    semester: student.semester,
+    tanggal_masuk: student.tanggalMasuk,
+    dosen_wali_id: student.dosenWaliId ?? null,
+  };
+}
+
+function toPartialRow(data: Partial<IStudent>): TablesUpdate<"students"> {
+  const row: TablesUpdate<"students"> = {};
+  if (data.nim !== undefined) row.nim = data.nim;
+  if (data.nama !== undefined) row.nama = data.nama;
+  if (data.email !== undefined) row.email = data.email;
+  if (data.jurusan !== undefined) row.jurusan = data.jurusan;
+  if (data.semester !== undefined) row.semester = data.semester;
+  if (data.tanggalMasuk !== undefined) row.tanggal_masuk = data.tanggalMasuk;
+  if (data.dosenWaliId !== undefined) row.dosen_wali_id = data.dosenWaliId;
+  return row;
+}
+
+// Kesalahan jaringan dari fetch tidak membawa kode Postgres
+function isNetworkError(error: { message: string; code?: string }): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  return !error.code && /failed to fetch|networkerror|load failed|network request failed/i.test(error.message);
+}
+
+function failure<T>(action: string, error: { message: string; code?: string }): RepositoryResult<T> {
+  return {
+    success: false,
+    message: `Gagal ${action}: ${error.message}`,
+    offline: isNetworkError(error),
+  };
+}
+
+function toVersioned(row: StudentRow): VersionedStudent {
+  return { student: fromRow(row), version: row.updated_at };
+}
+
+/**
+ * Ambil semua data mahasiswa aktif (bukan di Recycle Bin) dalam scope aktif
+ * Time Complexity: O(n)
+ */
+export async function fetchStudents(
+  scope: DataScope
+): Promise<RepositoryResult<IStudent[]> & { versions?: StudentVersions; quarantined?: QuarantinedRecord[] }> {
+  const query = supabase.from("students").select("*").is("deleted_at", null);
+  const scopedQuery = scope.workspaceId
+    ? query.eq("workspace_id", scope.workspaceId)
+    : query.eq("user_id", scope.userId).is("workspace_id", null);
+
+  const { data, error } = await scopedQuery.order("created_at", { ascending: true });
+
+  if (error) return failure("memuat data dari server", error);
+
+  const { valid, quarantined } = partitionRecords(data.map(fromRow));
+
+  return {
+    success: true,
+    message: `${valid.length} data mahasiswa berhasil dimuat dari server.`,
+    data: valid,
+    versions: Object.fromEntries(data.map((row) => [row.id, row.updated_at])),
+    quarantined,
+  };
+}
+
+/**
+ * Ambil data mahasiswa di Recycle Bin dalam scope aktif, terbaru lebih dulu
+ * Time Complexity: O(n)
+ */
+export async function fetchDeletedStudents(scope: DataScope): Promise<RepositoryResult<IDeletedStudent[]>> {
+  const query = supabase.from("students").select("*").not("deleted_at", "is", null);
+  const scopedQuery = scope.workspaceId
+    ? query.eq("workspace_id", scope.workspaceId)
+    : query.eq("user_id", scope.userId).is("workspace_id", null);
+
+  const { data, error } = await scopedQuery.order("deleted_at", { ascending: false });
+
+  if (error) return failure("memuat Recycle Bin dari server", error);
+
+  return {
+    success: true,
+    message: `${data.length} data di Recycle Bin.`,
+    data: data.map((row) => ({
+      student: fromRow(row),
+      deletedAt: row.deleted_at!,
+      deletedBy: row.deleted_by_email,
+    })),
+  };
+}
+
+/**
+ * Hapus permanen mahasiswa yang sudah ada di Recycle Bin
+ */
+export async function purgeStudentRecords(ids: string[]): Promise<RepositoryResult> {
+  if (ids.length === 0) {
+    return { success: true, message: "Tidak ada data yang dihapus." };
+  }
+
+  const { error } = await supabase
+    .from("students")
+    .delete()
+    .in("id", ids)
+    .not("deleted_at", "is", null);
+
+  if (error) return failure("menghapus permanen data di server", error);
+
+  return {
+    success: true,
+    message: `${ids.length} data mahasiswa dihapus permanen dari server.`,
+  };
+}
+
+/**
+ * Ambil satu mahasiswa aktif beserta versinya (null jika sudah dihapus)
+ */
+export async function fetchStudentVersion(id: string): Promise<RepositoryResult<VersionedStudent | null>> {
+  const { data, error } = await supabase
+    .from("students")
+    .select("*")
+    .eq("id", id)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (error) return failure("memuat data dari server", error);
+
+  return {
+    success: true,
+    message: data ? "Data ditemukan." : "Data sudah tidak ada di server.",
+    data: data ? toVersioned(data) : null,
+  };
+}
+
+/**
+ * Simpan mahasiswa baru (atau pulihkan dari Recycle Bin) dan kembalikan versinya
+ * Baris yang sudah ada diperbarui tanpa mengubah pemiliknya (user_id dan workspace_id)
+ */
+export async function insertStudentVersioned(
+  student: IStudent,
+  scope: DataScope
+): Promise<RepositoryResult<VersionedStudent>> {
+  let { data, error } = await supabase
+    .from("students")
+    .insert(toRow(student, scope))
+    .select()
+    .single();
+
+  if (error?.code === "23505" && error.message.includes("students_pkey")) {
+    // Menulis ulang baris yang ada di Recycle Bin berarti memulihkannya
+    ({ data, error } = await supabase
+      .from("students")
+      .update({ ...toPartialRow(student), deleted_at: null })
+      .eq("id", student.id)
+      .select()
+      .single());
+  }
+
+  if (error) return failure("menyimpan data ke server", error);
+
+  return {
+    success: true,
+    message: "Data mahasiswa tersimpan di server.",
+    data: toVersioned(data),
+  };
+}
+
+/**
+ * Perbarui mahasiswa hanya jika updated_at di server masih sama dengan version
+ * data null berarti baris sudah diubah (atau dihapus) pihak lain
+ */
+export async function updateStudentIfVersion(
+  student: IStudent,
+  version: string
+): Promise<RepositoryResult<VersionedStudent | null>> {
+  const { data, error } = await supabase
+    .from("students")
+    .update(toPartialRow(student))
+    .eq("id", student.id)
+    .eq("updated_at", version)
+    .is("deleted_at", null)
+    .select()
+    .maybeSingle();
+
+  if (error) return failure("memperbarui data di server", error);
+
+  return {
+    success: true,
+    message: data ? "Perubahan tersimpan di server." : "Data sudah diubah di server.",
+    data: data ? toVersioned(data) : null,
+  };
+}
+
+/**
+ * Pindahkan mahasiswa ke Recycle Bin hanya jika updated_at di server masih sama dengan version
+ * data false berarti baris sudah diubah pihak lain
+ */
+export async function softDeleteStudentIfVersion(
+  id: string,
+  version: string
+): Promise<RepositoryResult<boolean>> {
+  const { data, error } = await supabase
+    .from("students")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("updated_at", version)
+    .is("deleted_at", null)
+    .select("id");
+
+  if (error) return failure("menghapus data di server", error);
+
+  return {
+    success: true,
+    message: data.length > 0 ? "Data dipindahkan ke Recycle Bin." : "Data sudah diubah di server.",
+    data: data.length > 0,
+  };
+}
+
+/**
+ * Berlangganan perubahan tabel students dan presence dalam scope aktif
+ * Mengembalikan fungsi untuk berhenti berlangganan
+ */
+export function subscribeToStudents(
+  scope: DataScope,
+  viewer: PresenceViewer,
+  handlers: StudentRealtimeHandlers
+): () => void {
+  const filter = scope.workspaceId
+    ? `workspace_id=eq.${scope.workspaceId}`
+    : `user_id=eq.${scope.userId}`;
+  const channel = supabase.channel(`students:${scope.workspaceId ?? `user:${scope.userId}`}`, {
+    config: { presence: { key: viewer.userId } },
+  });
+
+  const handleChange = (payload: RealtimePostgresChangesPayload<StudentRow>) => {
+    if (payload.eventType === "DELETE") {
+      if (payload.old.id) handlers.onDelete(payload.old.id);
+      return;
+    }
+    // Data pribadi tidak menyertakan baris milik workspace
+    if (!scope.workspaceId && payload.new.workspace_id) return;
+    // Dipindahkan ke Recycle Bin oleh pengguna lain
+    if (payload.new.deleted_at) {
+      handlers.onDelete(payload.new.id);
+      return;
+    }
+    const { valid, quarantined } = partitionRecords([fromRow(payload.new)]);
+    if (quarantined.length > 0) {
+      handlers.onQuarantine(quarantined);
+      return;
+    }
+    handlers.onUpsert({ student: valid[0], version: payload.new.updated_at });
+  };
+
+  channel
+    .on("postgres_changes", { event: "INSERT", schema: "public", table: "students", filter }, handleChange)
+    .on("postgres_changes", { event: "UPDATE", schema: "public", table: "students", filter }, handleChange)
+    // Event delete tidak bisa difilter; id yang tidak dikenal diabaikan oleh pemanggil
+    .on("postgres_changes", { event: "DELETE", schema: "public", table: "students" }, handleChange)
+    .on("presence", { event: "sync" }, () => {
+      const state = channel.presenceState<PresenceViewer>();
+      const viewers = Object.values(state)
+        .map((metas) => metas[0])
+        .filter((meta) => meta && meta.userId !== viewer.userId)
+        .map(({ userId, email }) => ({ userId, email }));
+      handlers.onPresence(viewers);
+    })
+    .subscribe((status) => {
+      if (status === "SUBSCRIBED") {
+        channel.track(viewer);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { partitionRecords } from "@/utils/studentSchema";
+
+const record = {
+  id: "5d7f3a52-1b2e-4c9a-9f0e-2a1f6c3b8d01",
+  nim: "2021001",
+  nama: "Nguyễn Văn An",
+  email: "nguyen@student.ac.id",
+  jurusan: "Teknik Informatika",
+  semester: 5,
+  ipk: 3.45,
+  tanggalMasuk: "2021-08-30",
+};
+
+describe("partitionRecords", () => {
+  it("tidak mengkarantina nama beraksen", () => {
+    const { valid, quarantined } = partitionRecords([record, { ...record, id: "2", nama: "Çağla Yılmaz" }]);
+
+    expect(quarantined).toEqual([]);
+    expect(valid.map((s) => s.nama)).toEqual(["Nguyễn Văn An", "Çağla Yılmaz"]);
+  });
+
+  it("mengkarantina nama dengan angka beserta pesannya", () => {
+    const { valid, quarantined } = partitionRecords([{ ...record, nama: "Budi123" }]);
+
+    expect(valid).toEqual([]);
+    expect(quarantined[0].errors).toEqual([
+      "Nama: Nama hanya boleh huruf, spasi, titik, apostrof, dan tanda hubung (2-100 karakter)",
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Student Schema - Validasi runtime bentuk record IStudent dengan zod
+ *
+ * Dipakai saat data dimuat dari cache lokal atau server dan saat file (JSON, CSV, Excel) diimpor.
+ * Record yang tidak sesuai skema dikarantina (tidak masuk ke state) beserta
+ * daftar kesalahannya, sehingga satu record rusak tidak merusak seluruh data
+ */
+
+import { z } from "zod";
+import { IStudent } from "@/models/Student";
+import { REGEX_PATTERNS } from "@/utils/validation";
+import { STUDENT_FIELD_LABELS, StudentField } from "@/utils/studentDiff";
+
+export const studentSchema = z.object({
+  id: z.string().min(1, "ID tidak boleh kosong"),
+  nim: z.string().trim().min(1, "NIM tidak boleh kosong").max(50, "NIM maksimal 50 karakter"),
+  nama: z.string().regex(REGEX_PATTERNS.NAMA, "Nama hanya boleh huruf, spasi, titik, apostrof, dan tanda hubung (2-100 karakter)"),
+  email: z.string().regex(REGEX_PATTERNS.EMAIL, "Format email tidak valid"),
+  jurusan: z.string().regex(REGEX_PATTERNS.JURUSAN, "Jurusan hanya boleh huruf dan spasi (2-50 karakter)"),
+  semester: z
+    .number({ invalid_type_error: "Semester harus berupa angka" })
+    .int("Semester harus berupa bilangan bulat")
+    .min(1, "Semester harus antara 1-14")
+    .max(14, "Semester harus antara 1-14"),
+  ipk: z
+    .number({ invalid_type_error: "IPK harus berupa angka" })
+    .min(0, "IPK harus antara 0.00 - 4.00")
+    .max(4, "IPK harus antara 0.00 - 4.00"),
+  tanggalMasuk: z.string().regex(/^\d{4}-\d{2}-\d{2}/, "Tanggal masuk harus berformat YYYY-MM-DD"),
+  dosenWaliId: z.string().nullable().optional(),
+});
+
+export interface QuarantinedRecord {
+  index: number;
+  record: unknown;
+  errors: string[];
+}
+
+export interface PartitionResult {
+  valid: IStudent[];
+  quarantined: QuarantinedRecord[];
+}
+
+function formatIssue(issue: z.ZodIssue): string {
+  const field = issue.path[0];
+  const label = typeof field === "string" && field in STUDENT_FIELD_LABELS
+    ? STUDENT_FIELD_LABELS[field as StudentField]
+    : field === "id" ? "ID" : String(field ?? "Record");
+  const message = issue.code === "invalid_type" && issue.received === "undefined"
+    ? "wajib diisi"
+    : issue.message;
+  return `${label}: ${message}`;
+}
+
+/**
+ * Pisahkan record yang sesuai skema dari yang harus dikarantina
+ * Time Complexity: O(n)
+ */
+export function partitionRecords(records: unknown[]): PartitionResult {
+  const valid: IStudent[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+
+  records.forEach((record, index) => {
+    const result = studentSchema.safeParse(record);
+    if (result.success) {
+      valid.push(result.data as IStudent);
+    } else {
+      quarantined.push({ index, record, errors: result.error.issues.map(formatIssue) });
+    }
+  });
+
+  return { valid, quarantined };
+}
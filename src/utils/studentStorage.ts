@@ -0,0 +1,230 @@
+/**
+ * Student Storage - Antarmuka penyimpanan cache lokal yang bisa diganti
+ *
+ * - IndexedDB (utama)     : satu record per mahasiswa, hanya baris yang berubah yang ditulis
+ * - localStorage (cadangan): satu envelope JSON per scope (fileIO.ts), dipakai bila
+ *   IndexedDB tidak tersedia; batas ~5 MB ditangani lewat QuotaExceededError
+ *
+ * Kedua backend mengembalikan FileIOResult yang sama, sehingga hook tidak perlu tahu
+ * backend mana yang aktif
+ */
+
+import { IStudent } from "@/models/Student";
+import {
+  FileIOResult,
+  addToQuarantine,
+  clearAllData,
+  loadEnvelope,
+  readFromFile,
+  readUnscopedFile,
+  removeUnscopedFile,
+  saveToFile,
+} from "@/utils/fileIO";
+import { CURRENT_DATA_VERSION } from "@/utils/dataMigrations";
+import { DatasetDiff, diffDatasets } from "@/utils/studentDiff";
+import { scheduleSnapshot } from "@/utils/snapshotStore";
+import {
+  META_STORE,
+  STUDENT_STORE,
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+} from "@/utils/indexedDB";
+
+export interface StudentStorage {
+  readonly name: "indexeddb" | "localstorage";
+  load(scopeKey: string): Promise<FileIOResult>;
+  /**
+   * Simpan data scope. previous adalah data yang terakhir berhasil disimpan;
+   * null berarti tulis ulang seluruh data scope
+   */
+  save(scopeKey: string, students: IStudent[], previous: IStudent[] | null): Promise<FileIOResult>;
+}
+
+interface StoredStudent extends IStudent {
+  scopeKey: string;
+  // Posisi dalam array saat ditulis, untuk menjaga urutan tampilan
+  position: number;
+}
+
+interface StoredMeta {
+  scopeKey: string;
+  version: string;
+  timestamp: string;
+  count: number;
+}
+
+// Seluruh key [scopeKey, id] milik satu scope
+function scopeRange(scopeKey: string): IDBKeyRange {
+  return IDBKeyRange.bound([scopeKey, ""], [scopeKey, "\uffff"]);
+}
+
+function toStored(student: IStudent, scopeKey: string, position: number): StoredStudent {
+  return { ...student, scopeKey, position };
+}
+
+function fromStored({ scopeKey: _scopeKey, position: _position, ...student }: StoredStudent): IStudent {
+  return student;
+}
+
+function hasChanges(diff: DatasetDiff): boolean {
+  return diff.added.length + diff.changed.length + diff.removed.length > 0;
+}
+
+function snapshotEnvelope(students: IStudent[], timestamp: string) {
+  return { version: CURRENT_DATA_VERSION, timestamp, count: students.length, data: students };
+}
+
+export const localStorageBackend: StudentStorage = {
+  name: "localstorage",
+  load: async (scopeKey) => readFromFile(scopeKey),
+  save: async (scopeKey, students, previous) => {
+    const result = saveToFile(students, scopeKey);
+    if (result.success && result.timestamp && (previous === null || hasChanges(diffDatasets(previous, students)))) {
+      scheduleSnapshot(scopeKey, snapshotEnvelope(students, result.timestamp));
+    }
+    return result;
+  },
+};
+
+/**
+ * Tulis perubahan ke IndexedDB dalam satu transaksi
+ * Time Complexity: O(n) untuk diff, O(k) operasi tulis dimana k adalah baris yang berubah atau bergeser
+ */
+async function saveToIndexedDB(
+  scopeKey: string,
+  students: IStudent[],
+  previous: IStudent[] | null
+): Promise<FileIOResult> {
+  const db = await openDatabase();
+  const transaction = db.transaction([STUDENT_STORE, META_STORE], "readwrite");
+  const store = transaction.objectStore(STUDENT_STORE);
+  const timestamp = new Date().toISOString();
+  let changed = true;
+
+  if (previous === null) {
+    store.delete(scopeRange(scopeKey));
+    students.forEach((s, index) => store.put(toStored(s, scopeKey, index)));
+  } else {
+    // Baris yang bergeser (mis. setelah ada yang dihapus) ikut ditulis agar posisinya tetap unik
+    const diff = diffDatasets(previous, students);
+    changed = hasChanges(diff);
+    const previousIndex = new Map(previous.map((s, index) => [s.id, index]));
+    const changedIds = new Set(diff.changed.map(({ after }) => after.id));
+    students.forEach((s, index) => {
+      if (previousIndex.get(s.id) !== index || changedIds.has(s.id)) {
+        store.put(toStored(s, scopeKey, index));
+      }
+    });
+    diff.removed.forEach((s) => store.delete([scopeKey, s.id]));
+  }
+
+  const meta: StoredMeta = { scopeKey, version: CURRENT_DATA_VERSION, timestamp, count: students.length };
+  transaction.objectStore(META_STORE).put(meta);
+  await transactionDone(transaction);
+
+  // Snapshot berversi ditulis belakangan saat browser idle (lihat snapshotStore.ts)
+  if (changed) scheduleSnapshot(scopeKey, snapshotEnvelope(students, timestamp));
+
+  return {
+    success: true,
+    message: `Data berhasil disimpan. ${students.length} mahasiswa tersimpan.`,
+    timestamp,
+  };
+}
+
+/**
+ * Baca data scope dari IndexedDB; cache localStorage lama dipindahkan sekali
+ * Time Complexity: O(n log n) untuk mengurutkan sesuai posisi
+ */
+async function loadFromIndexedDB(scopeKey: string): Promise<FileIOResult> {
+  const db = await openDatabase();
+  const transaction = db.transaction([STUDENT_STORE, META_STORE], "readonly");
+  const meta = await requestToPromise<StoredMeta | undefined>(
+    transaction.objectStore(META_STORE).get(scopeKey)
+  );
+
+  if (!meta) {
+    const legacy = readFromFile(scopeKey);
+    if (legacy.success && legacy.data && legacy.data.length > 0) {
+      await saveToIndexedDB(scopeKey, legacy.data, null);
+      clearAllData(scopeKey);
+    }
+    return legacy;
+  }
+
+  const records = await requestToPromise<StoredStudent[]>(
+    transaction.objectStore(STUDENT_STORE).index("scopeKey").getAll(scopeKey)
+  );
+  records.sort((a, b) => a.position - b.position);
+
+  const loaded = loadEnvelope({ version: meta.version, data: records.map(fromStored) });
+  if (loaded.success) addToQuarantine(scopeKey, loaded.quarantined ?? []);
+
+  return { ...loaded, timestamp: meta.timestamp };
+}
+
+function describeError(error: unknown): FileIOResult {
+  if (error instanceof DOMException && error.name === "QuotaExceededError") {
+    return {
+      success: false,
+      message: "Penyimpanan penuh. Hapus beberapa data dan coba lagi.",
+    };
+  }
+  return {
+    success: false,
+    message: `Gagal mengakses penyimpanan lokal: ${error instanceof Error ? error.message : String(error)}`,
+  };
+}
+
+export const indexedDBBackend: StudentStorage = {
+  name: "indexeddb",
+  load: async (scopeKey) => {
+    try {
+      return await loadFromIndexedDB(scopeKey);
+    } catch (error) {
+      return describeError(error);
+    }
+  },
+  save: async (scopeKey, students, previous) => {
+    try {
+      return await saveToIndexedDB(scopeKey, students, previous);
+    } catch (error) {
+      return describeError(error);
+    }
+  },
+};
+
+/**
+ * Pindahkan data dari versi sebelum ada scope ke scope pribadi pengguna
+ * Scope pribadi yang sudah berisi data tidak ditimpa; data lama dibiarkan
+ */
+export async function migrateUnscopedData(storage: StudentStorage, personalScopeKey: string): Promise<void> {
+  const legacy = readUnscopedFile();
+  if (!legacy?.success || !legacy.data) return;
+
+  const current = await storage.load(personalScopeKey);
+  if (!current.success || (current.data && current.data.length > 0)) return;
+
+  const saved = await storage.save(personalScopeKey, legacy.data, null);
+  if (!saved.success) return;
+  addToQuarantine(personalScopeKey, legacy.quarantined ?? []);
+  removeUnscopedFile();
+}
+
+let activeStorage: Promise<StudentStorage> | null = null;
+
+/**
+ * Pilih backend sekali per sesi: IndexedDB jika bisa dibuka, selain itu localStorage
+ */
+export function getStudentStorage(): Promise<StudentStorage> {
+  if (!activeStorage) {
+    activeStorage = openDatabase()
+      .then(() => indexedDBBackend)
+      .catch((error) => {
+        console.warn("IndexedDB tidak tersedia, memakai localStorage:", error);
+        return localStorageBackend;
+      });
+  }
+  return activeStorage;
+}
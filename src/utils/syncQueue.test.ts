@@ -0,0 +1,101 @@
+// @vitest-environment jsdom
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { IStudent } from "@/models/Student";
+import { DataScope, getScopeKey } from "@/models/Workspace";
+import type { SyncBackend } from "@/utils/syncQueue";
+
+// Backend diganti stand-in di bawah; client Supabase tidak pernah dipakai
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+const scope: DataScope = { userId: "user-1", workspaceId: null };
+const scopeKey = getScopeKey(scope);
+
+const budi: IStudent = {
+  id: "student-1",
+  nim: "2021001",
+  nama: "Budi Santoso",
+  email: "budi@student.ac.id",
+  jurusan: "Teknik Informatika",
+  semester: 5,
+  ipk: 3.45,
+  tanggalMasuk: "2021-08-30",
+};
+
+// Stand-in server in-memory: update dan hapus hanya berhasil pada versi terbaru
+function createBackend(rows: Record<string, { student: IStudent; version: string }>): SyncBackend {
+  return {
+    fetch: vi.fn(async (id: string) => ({ success: true, message: "", data: rows[id] ?? null })),
+    insert: vi.fn(async () => ({ success: false, message: "Gagal menambah: 500 Internal Server Error" })),
+    update: vi.fn(async (student: IStudent, version: string) => {
+      if (rows[student.id]?.version !== version) return { success: true, message: "", data: null };
+      rows[student.id] = { student, version: `${version}+` };
+      return { success: true, message: "", data: rows[student.id] };
+    }),
+    remove: vi.fn(async () => ({ success: true, message: "", data: true })),
+  };
+}
+
+// Modul dimuat ulang seperti saat halaman di-reload; IndexedDB tetap berisi data
+async function loadSyncQueue() {
+  vi.resetModules();
+  return import("@/utils/syncQueue");
+}
+
+describe("flushQueue", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  it("menyimpan konflik di antrean sehingga masih ada setelah reload", async () => {
+    const sync = await loadSyncQueue();
+    const backend = createBackend({
+      [budi.id]: { student: { ...budi, semester: 7 }, version: "v2" },
+    });
+    await sync.refreshVersions(scopeKey, { [budi.id]: "v1" });
+    await sync.enqueueChanges(scopeKey, [{ id: budi.id, before: budi, after: { ...budi, semester: 6 } }]);
+
+    const result = await sync.flushQueue(scope, scopeKey, backend);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.remaining).toBe(1);
+
+    const reloaded = await loadSyncQueue();
+    const queue = await reloaded.readQueue(scopeKey);
+    const [conflict] = reloaded.storedConflicts(queue);
+    expect(conflict).toMatchObject({
+      studentId: budi.id,
+      local: { semester: 6 },
+      server: { semester: 7 },
+      serverVersion: "v2",
+      fields: [{ field: "semester", base: 5, local: 6, server: 7 }],
+    });
+
+    // Konflik yang belum diselesaikan tidak dikirim ulang
+    vi.mocked(backend.fetch).mockClear();
+    await reloaded.flushQueue(scope, scopeKey, backend);
+    expect(backend.fetch).not.toHaveBeenCalled();
+
+    await reloaded.resolveConflictInQueue(scopeKey, conflict, { ...budi, semester: 7 });
+    expect(await reloaded.readQueue(scopeKey)).toEqual([]);
+  });
+
+  it("menyimpan entri yang ditolak server beserta jumlah percobaan dan pesan terakhir", async () => {
+    const sync = await loadSyncQueue();
+    const backend = createBackend({});
+    await sync.enqueueChanges(scopeKey, [{ id: budi.id, before: null, after: budi }]);
+
+    const first = await sync.flushQueue(scope, scopeKey, backend);
+    expect(first.failed).toEqual(["Gagal menambah: 500 Internal Server Error"]);
+    await sync.flushQueue(scope, scopeKey, backend);
+
+    const [entry] = await (await loadSyncQueue()).readQueue(scopeKey);
+    expect(entry).toMatchObject({
+      type: "insert",
+      studentId: budi.id,
+      attempts: 2,
+      lastError: "Gagal menambah: 500 Internal Server Error",
+    });
+  });
+});
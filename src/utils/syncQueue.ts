@@ -0,0 +1,680 @@
+/**
+ * Sync Queue - Antrean mutasi offline-first ke server
+ *
+ * Setiap mutasi (tambah/ubah/hapus) dicatat dulu di antrean lokal per scope,
+ * lalu dikirim berurutan saat online. Antrean menyimpan paling banyak satu entri
+ * per mahasiswa: mutasi berikutnya digabung ke entri yang sudah ada.
+ *
+ * Sebelum menulis, versi server (updated_at) dibandingkan dengan versi terakhir
+ * yang diketahui. Jika server sudah berubah, dilakukan penggabungan tiga arah
+ * per field (base, lokal, server): field yang hanya berubah di satu sisi diambil
+ * otomatis, field yang berubah di kedua sisi menjadi konflik untuk pengguna.
+ * Entri yang konflik atau ditolak server tetap tersimpan di antrean: konflik
+ * menunggu pilihan pengguna (juga setelah reload), entri yang gagal dicoba lagi.
+ *
+ * Antrean dan versi disimpan di IndexedDB di samping cache mahasiswa (localStorage
+ * bila IndexedDB tidak tersedia); kegagalan menulis antrean dilaporkan ke pemanggil.
+ *
+ * Backend server bisa diganti lewat SyncBackend, misalnya instance Supabase lokal
+ * (`supabase start`) atau stand-in in-memory saat pengujian
+ */
+
+import { IStudent } from "@/models/Student";
+import { DataScope } from "@/models/Workspace";
+import {
+  RepositoryResult,
+  StudentVersions,
+  VersionedStudent,
+  fetchStudentVersion,
+  insertStudentVersioned,
+  softDeleteStudentIfVersion,
+  updateStudentIfVersion,
+} from "@/utils/studentRepository";
+import { STUDENT_FIELDS, StudentField } from "@/utils/studentDiff";
+import { RemoteChange } from "@/utils/tabSync";
+import {
+  SYNC_QUEUE_STORE,
+  SYNC_VERSIONS_STORE,
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+} from "@/utils/indexedDB";
+
+// Status pengiriman entri yang sudah pernah dicoba
+export interface QueueEntryState {
+  // Konflik yang menunggu pilihan pengguna; entri tidak dikirim sampai diselesaikan
+  conflict?: ServerConflict;
+  // Jumlah percobaan yang ditolak server dan pesan penolakan terakhir
+  attempts?: number;
+  lastError?: string;
+}
+
+export type QueuedMutation = (
+  | { id: string; type: "insert"; studentId: string; student: IStudent; queuedAt: string }
+  | { id: string; type: "update"; studentId: string; base: IStudent; student: IStudent; queuedAt: string }
+  | { id: string; type: "delete"; studentId: string; base: IStudent; queuedAt: string }
+) & QueueEntryState;
+
+export interface FieldConflict {
+  field: StudentField;
+  base: IStudent[StudentField] | null;
+  local: IStudent[StudentField] | null;
+  server: IStudent[StudentField] | null;
+}
+
+export interface ServerConflict {
+  studentId: string;
+  // null berarti dihapus di sisi tersebut
+  local: IStudent | null;
+  server: IStudent | null;
+  serverVersion: string | null;
+  // Hasil penggabungan otomatis; field yang konflik masih berisi nilai lokal
+  merged: IStudent | null;
+  fields: FieldConflict[];
+}
+
+export interface SyncBackend {
+  fetch: (id: string) => Promise<RepositoryResult<VersionedStudent | null>>;
+  insert: (student: IStudent, scope: DataScope) => Promise<RepositoryResult<VersionedStudent>>;
+  update: (student: IStudent, version: string) => Promise<RepositoryResult<VersionedStudent | null>>;
+  // Hapus berarti pindah ke Recycle Bin; purge permanen tidak lewat antrean
+  remove: (id: string, version: string) => Promise<RepositoryResult<boolean>>;
+}
+
+export interface FlushResult {
+  synced: number;
+  // Versi server yang sudah digabung otomatis; perlu diterapkan ke state lokal
+  merged: IStudent[];
+  conflicts: ServerConflict[];
+  failed: string[];
+  remaining: number;
+  offline: boolean;
+}
+
+export const supabaseSyncBackend: SyncBackend = {
+  fetch: fetchStudentVersion,
+  insert: insertStudentVersioned,
+  update: updateStudentIfVersion,
+  remove: softDeleteStudentIfVersion,
+};
+
+// Hasil penulisan antrean; queue berisi antrean terkini (atau yang terakhir terbaca bila gagal)
+export interface QueueWriteResult {
+  success: boolean;
+  message: string;
+  queue: QueuedMutation[];
+}
+
+interface StoredMutation {
+  scopeKey: string;
+  studentId: string;
+  // Urutan entri pertama milik mahasiswa ini; dipertahankan saat entri digabung
+  order: number;
+  entry: QueuedMutation;
+}
+
+interface StoredVersions {
+  scopeKey: string;
+  versions: StudentVersions;
+}
+
+/**
+ * Tempat antrean dan versi disimpan: IndexedDB (utama) atau localStorage (cadangan)
+ * update dijalankan sebagai baca-ubah-tulis; pada IndexedDB dalam satu transaksi
+ * sehingga tab lain tidak menimpa entri di antaranya
+ */
+interface SyncStateStore {
+  readQueue(scopeKey: string): Promise<QueuedMutation[]>;
+  updateQueue(scopeKey: string, update: (queue: QueuedMutation[]) => QueuedMutation[]): Promise<QueuedMutation[]>;
+  readVersions(scopeKey: string): Promise<StudentVersions>;
+  updateVersions(scopeKey: string, update: (versions: StudentVersions) => StudentVersions): Promise<void>;
+}
+
+const QUEUE_KEY_PREFIX = "student_sync_queue:";
+const VERSIONS_KEY_PREFIX = "student_versions:";
+const SEEDED_KEY_PREFIX = "student_sync_seeded:";
+
+function readJSON<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.error("Error reading sync state:", error);
+    return fallback;
+  }
+}
+
+function writeJSON(key: string, value: unknown, empty: boolean): void {
+  if (empty) localStorage.removeItem(key);
+  else localStorage.setItem(key, JSON.stringify(value));
+}
+
+const localStorageSyncStore: SyncStateStore = {
+  readQueue: async (scopeKey) => readJSON<QueuedMutation[]>(QUEUE_KEY_PREFIX + scopeKey, []),
+  updateQueue: async (scopeKey, update) => {
+    const queue = update(readJSON<QueuedMutation[]>(QUEUE_KEY_PREFIX + scopeKey, []));
+    writeJSON(QUEUE_KEY_PREFIX + scopeKey, queue, queue.length === 0);
+    return queue;
+  },
+  readVersions: async (scopeKey) => readJSON<StudentVersions>(VERSIONS_KEY_PREFIX + scopeKey, {}),
+  updateVersions: async (scopeKey, update) => {
+    const versions = update(readJSON<StudentVersions>(VERSIONS_KEY_PREFIX + scopeKey, {}));
+    writeJSON(VERSIONS_KEY_PREFIX + scopeKey, versions, Object.keys(versions).length === 0);
+  },
+};
+
+// Seluruh key [scopeKey, studentId] milik satu scope
+function scopeRange(scopeKey: string): IDBKeyRange {
+  return IDBKeyRange.bound([scopeKey, ""], [scopeKey, "\uffff"]);
+}
+
+async function readStoredQueue(store: IDBObjectStore, scopeKey: string): Promise<StoredMutation[]> {
+  const records = await requestToPromise<StoredMutation[]>(store.getAll(scopeRange(scopeKey)));
+  return records.sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Antrean di IndexedDB: satu record per mahasiswa, hanya entri yang berubah yang ditulis
+ * (entri yang tidak diubah oleh update dikembalikan sebagai objek yang sama)
+ * Time Complexity: O(q) untuk membaca, O(k) operasi tulis
+ */
+const indexedDBSyncStore: SyncStateStore = {
+  readQueue: async (scopeKey) => {
+    const db = await openDatabase();
+    const store = db.transaction(SYNC_QUEUE_STORE, "readonly").objectStore(SYNC_QUEUE_STORE);
+    return (await readStoredQueue(store, scopeKey)).map((record) => record.entry);
+  },
+  updateQueue: async (scopeKey, update) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(SYNC_QUEUE_STORE, "readwrite");
+    const store = transaction.objectStore(SYNC_QUEUE_STORE);
+    const records = await readStoredQueue(store, scopeKey);
+
+    const queue = update(records.map((record) => record.entry));
+    const previous = new Set(records.map((record) => record.entry));
+    const orders = new Map(records.map((record) => [record.entry.studentId, record.order]));
+    let nextOrder = records.length > 0 ? records[records.length - 1].order + 1 : 0;
+
+    const remaining = new Set(queue.map((entry) => entry.studentId));
+    records
+      .filter((record) => !remaining.has(record.entry.studentId))
+      .forEach((record) => store.delete([scopeKey, record.entry.studentId]));
+    queue
+      .filter((entry) => !previous.has(entry))
+      .forEach((entry) => {
+        const order = orders.get(entry.studentId) ?? nextOrder++;
+        store.put({ scopeKey, studentId: entry.studentId, order, entry });
+      });
+
+    await transactionDone(transaction);
+    return queue;
+  },
+  readVersions: async (scopeKey) => {
+    const db = await openDatabase();
+    const store = db.transaction(SYNC_VERSIONS_STORE, "readonly").objectStore(SYNC_VERSIONS_STORE);
+    const record = await requestToPromise<StoredVersions | undefined>(store.get(scopeKey));
+    return record?.versions ?? {};
+  },
+  updateVersions: async (scopeKey, update) => {
+    const db = await openDatabase();
+    const transaction = db.transaction(SYNC_VERSIONS_STORE, "readwrite");
+    const store = transaction.objectStore(SYNC_VERSIONS_STORE);
+    const record = await requestToPromise<StoredVersions | undefined>(store.get(scopeKey));
+    store.put({ scopeKey, versions: update(record?.versions ?? {}) });
+    await transactionDone(transaction);
+  },
+};
+
+let activeStore: Promise<SyncStateStore> | null = null;
+
+/**
+ * Pilih tempat penyimpanan sekali per sesi, seperti getStudentStorage
+ * Antrean dan versi lama di localStorage dipindahkan ke IndexedDB saat dibaca pertama kali
+ */
+function getSyncStore(): Promise<SyncStateStore> {
+  if (!activeStore) {
+    activeStore = openDatabase()
+      .then(() => indexedDBSyncStore)
+      .catch((error) => {
+        console.warn("IndexedDB tidak tersedia, antrean sinkronisasi memakai localStorage:", error);
+        return localStorageSyncStore;
+      });
+  }
+  return activeStore;
+}
+
+const migratedScopes = new Set<string>();
+
+async function getScopeStore(scopeKey: string): Promise<SyncStateStore> {
+  const store = await getSyncStore();
+  if (store === localStorageSyncStore || migratedScopes.has(scopeKey)) return store;
+
+  const legacyQueue = await localStorageSyncStore.readQueue(scopeKey);
+  const legacyVersions = await localStorageSyncStore.readVersions(scopeKey);
+  if (legacyQueue.length > 0) {
+    await store.updateQueue(scopeKey, (queue) => [
+      ...queue,
+      ...legacyQueue.filter((entry) => !queue.some((q) => q.studentId === entry.studentId)),
+    ]);
+  }
+  if (Object.keys(legacyVersions).length > 0) {
+    await store.updateVersions(scopeKey, (versions) => ({ ...legacyVersions, ...versions }));
+  }
+  localStorage.removeItem(QUEUE_KEY_PREFIX + scopeKey);
+  localStorage.removeItem(VERSIONS_KEY_PREFIX + scopeKey);
+  migratedScopes.add(scopeKey);
+  return store;
+}
+
+function describeWriteError(error: unknown): string {
+  if (error instanceof DOMException && error.name === "QuotaExceededError") {
+    return "Penyimpanan penuh. Perubahan belum masuk antrean sinkronisasi.";
+  }
+  return `Gagal menyimpan antrean sinkronisasi: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/**
+ * Ubah antrean scope; kegagalan menulis dilaporkan ke pemanggil, bukan ditelan
+ */
+async function writeQueue(
+  scopeKey: string,
+  update: (queue: QueuedMutation[]) => QueuedMutation[]
+): Promise<QueueWriteResult> {
+  try {
+    const store = await getScopeStore(scopeKey);
+    const queue = await store.updateQueue(scopeKey, update);
+    return { success: true, message: `${queue.length} perubahan menunggu sinkronisasi.`, queue };
+  } catch (error) {
+    console.error("Error writing sync queue:", error);
+    return { success: false, message: describeWriteError(error), queue: await readQueue(scopeKey) };
+  }
+}
+
+export async function readQueue(scopeKey: string): Promise<QueuedMutation[]> {
+  try {
+    return await (await getScopeStore(scopeKey)).readQueue(scopeKey);
+  } catch (error) {
+    console.error("Error reading sync queue:", error);
+    return [];
+  }
+}
+
+export async function readVersions(scopeKey: string): Promise<StudentVersions> {
+  try {
+    return await (await getScopeStore(scopeKey)).readVersions(scopeKey);
+  } catch (error) {
+    console.error("Error reading sync versions:", error);
+    return {};
+  }
+}
+
+async function setVersion(scopeKey: string, studentId: string, version: string | null): Promise<void> {
+  const store = await getScopeStore(scopeKey);
+  await store.updateVersions(scopeKey, (versions) => {
+    const next = { ...versions };
+    if (version) next[studentId] = version;
+    else delete next[studentId];
+    return next;
+  });
+}
+
+/**
+ * Simpan versi hasil fetch penuh dari server
+ * Mahasiswa yang masih punya entri di antrean tetap memakai versi lama, agar
+ * perubahan server sejak itu tetap terdeteksi saat antrean dikirim
+ */
+export async function refreshVersions(scopeKey: string, fetched: StudentVersions): Promise<void> {
+  const queue = await readQueue(scopeKey);
+  const store = await getScopeStore(scopeKey);
+  await store.updateVersions(scopeKey, (previous) => {
+    const versions = { ...fetched };
+    for (const entry of queue) {
+      if (previous[entry.studentId]) versions[entry.studentId] = previous[entry.studentId];
+      else delete versions[entry.studentId];
+    }
+    return versions;
+  });
+}
+
+/**
+ * Catat versi dari event realtime server (null = baris dihapus)
+ * Mengembalikan false jika mahasiswa masih punya entri di antrean: perubahan lokal
+ * tetap ditampilkan dan bentrokannya diselesaikan saat antrean dikirim
+ */
+export async function acceptRemoteVersion(
+  scopeKey: string,
+  studentId: string,
+  version: string | null
+): Promise<boolean> {
+  if ((await readQueue(scopeKey)).some((entry) => entry.studentId === studentId)) return false;
+  await setVersion(scopeKey, studentId, version);
+  return true;
+}
+
+/**
+ * Gabungkan satu perubahan ke entri antrean milik mahasiswa yang sama
+ * Entri hasil gabungan selalu diberi id baru agar entri yang sedang dikirim
+ * tidak ikut terhapus saat pengiriman selesai
+ */
+function coalesce(existing: QueuedMutation | undefined, change: RemoteChange): QueuedMutation | null {
+  const queuedAt = new Date().toISOString();
+  const id = crypto.randomUUID();
+  const studentId = change.id;
+  // Base adalah versi sebelum mutasi pertama yang belum terkirim
+  const base = existing
+    ? existing.type === "insert" ? null : existing.base
+    : change.before;
+
+  if (!change.after) {
+    // Tambah lalu hapus sebelum terkirim: tidak perlu ke server
+    return base ? { id, type: "delete", studentId, base, queuedAt } : null;
+  }
+  if (!base) return { id, type: "insert", studentId, student: change.after, queuedAt };
+  return { id, type: "update", studentId, base, student: change.after, queuedAt };
+}
+
+function applyToQueue(queue: QueuedMutation[], changes: RemoteChange[]): QueuedMutation[] {
+  const byStudent = new Map(queue.map((entry) => [entry.studentId, entry]));
+  for (const change of changes) {
+    const next = coalesce(byStudent.get(change.id), change);
+    if (next) byStudent.set(change.id, next);
+    else byStudent.delete(change.id);
+  }
+  return Array.from(byStudent.values());
+}
+
+/**
+ * Tambahkan perubahan ke antrean scope
+ * Time Complexity: O(q + k)
+ */
+export async function enqueueChanges(scopeKey: string, changes: RemoteChange[]): Promise<QueueWriteResult> {
+  if (changes.length === 0) {
+    const queue = await readQueue(scopeKey);
+    return { success: true, message: `${queue.length} perubahan menunggu sinkronisasi.`, queue };
+  }
+  return writeQueue(scopeKey, (queue) => applyToQueue(queue, changes));
+}
+
+/**
+ * Sinkronisasi pertama scope: data cache lokal yang belum ada di server
+ * dimasukkan ke antrean sebagai insert, bukan tertimpa data server
+ * Hanya dijalankan sekali per scope; setelahnya server menjadi sumber utama
+ * Time Complexity: O(n + m)
+ */
+export async function seedQueueFromCache(
+  scopeKey: string,
+  cached: IStudent[],
+  server: IStudent[]
+): Promise<QueueWriteResult> {
+  const seededKey = SEEDED_KEY_PREFIX + scopeKey;
+  // Perangkat yang sudah pernah menerima versi dari server dianggap sudah tersinkron
+  if (localStorage.getItem(seededKey) || Object.keys(await readVersions(scopeKey)).length > 0) {
+    return enqueueChanges(scopeKey, []);
+  }
+
+  const serverIds = new Set(server.map((s) => s.id));
+  const result = await enqueueChanges(
+    scopeKey,
+    cached.filter((s) => !serverIds.has(s.id)).map((s) => ({ id: s.id, before: null, after: s }))
+  );
+  if (result.success) localStorage.setItem(seededKey, new Date().toISOString());
+  return result;
+}
+
+/**
+ * Perubahan yang belum terkirim, untuk diterapkan di atas data dari server
+ */
+export function pendingChanges(queue: QueuedMutation[]): RemoteChange[] {
+  return queue.map((entry) => ({
+    id: entry.studentId,
+    before: entry.type === "insert" ? null : entry.base,
+    after: entry.type === "delete" ? null : entry.student,
+  }));
+}
+
+/**
+ * Konflik yang tersimpan di antrean, untuk ditampilkan lagi setelah reload
+ */
+export function storedConflicts(queue: QueuedMutation[]): ServerConflict[] {
+  return queue.filter((entry) => entry.conflict).map((entry) => entry.conflict!);
+}
+
+// Hapus entri yang sudah terkirim (berdasarkan id entri, bukan id mahasiswa)
+async function removeFromQueue(scopeKey: string, entryId: string): Promise<number> {
+  const store = await getScopeStore(scopeKey);
+  const queue = await store.updateQueue(scopeKey, (current) => current.filter((entry) => entry.id !== entryId));
+  return queue.length;
+}
+
+// Perbarui status entri; entri yang sudah diganti perubahan baru dibiarkan
+async function updateEntryState(scopeKey: string, entryId: string, state: QueueEntryState): Promise<void> {
+  const store = await getScopeStore(scopeKey);
+  await store.updateQueue(scopeKey, (current) =>
+    current.map((entry) => (entry.id === entryId ? { ...entry, ...state } : entry))
+  );
+}
+
+/**
+ * Terapkan pilihan pengguna atas konflik: versi server menjadi dasar baru,
+ * lalu hasil pilihan (null = hapus) dimasukkan ke antrean bila berbeda dari server
+ */
+export async function resolveConflictInQueue(
+  scopeKey: string,
+  conflict: ServerConflict,
+  resolved: IStudent | null
+): Promise<QueueWriteResult> {
+  const unchanged = conflict.server === null || resolved === null
+    ? conflict.server === resolved
+    : STUDENT_FIELDS.every((field) => (conflict.server![field] ?? null) === (resolved[field] ?? null));
+
+  try {
+    await setVersion(scopeKey, conflict.studentId, conflict.serverVersion);
+  } catch (error) {
+    console.error("Error writing sync versions:", error);
+    return { success: false, message: describeWriteError(error), queue: await readQueue(scopeKey) };
+  }
+  return writeQueue(scopeKey, (queue) => {
+    const rest = queue.filter((entry) => entry.studentId !== conflict.studentId);
+    return unchanged
+      ? rest
+      : applyToQueue(rest, [{ id: conflict.studentId, before: conflict.server, after: resolved }]);
+  });
+}
+
+/**
+ * Penggabungan tiga arah per field
+ * Time Complexity: O(f)
+ */
+export function mergeFields(
+  base: IStudent,
+  local: IStudent,
+  server: IStudent
+): { merged: IStudent; conflicts: FieldConflict[] } {
+  const merged = { ...local } as IStudent;
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of STUDENT_FIELDS) {
+    const b = base[field] ?? null;
+    const l = local[field] ?? null;
+    const s = server[field] ?? null;
+    if (l === s || s === b) continue;
+    if (l === b) {
+      (merged as unknown as Record<string, unknown>)[field] = s;
+    } else {
+      conflicts.push({ field, base: b, local: l, server: s });
+    }
+  }
+
+  return { merged, conflicts };
+}
+
+type EntryOutcome =
+  | { kind: "synced"; merged?: IStudent }
+  | { kind: "conflict"; conflict: ServerConflict }
+  | { kind: "retry" }
+  | { kind: "failed"; message: string }
+  | { kind: "offline" };
+
+function unreachable(result: RepositoryResult<unknown>): EntryOutcome {
+  return result.offline ? { kind: "offline" } : { kind: "failed", message: result.message };
+}
+
+async function replayEntry(
+  entry: QueuedMutation,
+  scope: DataScope,
+  scopeKey: string,
+  backend: SyncBackend
+): Promise<EntryOutcome> {
+  const known = (await readVersions(scopeKey))[entry.studentId];
+
+  if (entry.type === "insert") {
+    const inserted = await backend.insert(entry.student, scope);
+    if (inserted.success && inserted.data) {
+      await setVersion(scopeKey, entry.studentId, inserted.data.version);
+      return { kind: "synced" };
+    }
+    if (inserted.offline) return { kind: "offline" };
+
+    // Insert yang sudah pernah berhasil (mis. respons hilang) diperlakukan sebagai update
+    const current = await backend.fetch(entry.studentId);
+    if (!current.success) return unreachable(current);
+    if (!current.data) return { kind: "failed", message: inserted.message };
+    const updated = await backend.update(entry.student, current.data.version);
+    if (!updated.success) return unreachable(updated);
+    if (!updated.data) return { kind: "retry" };
+    await setVersion(scopeKey, entry.studentId, updated.data.version);
+    return { kind: "synced" };
+  }
+
+  const current = await backend.fetch(entry.studentId);
+  if (!current.success) return unreachable(current);
+  const server = current.data;
+
+  if (entry.type === "delete") {
+    if (!server) {
+      await setVersion(scopeKey, entry.studentId, null);
+      return { kind: "synced" };
+    }
+    const changedOnServer = server.version !== known &&
+      STUDENT_FIELDS.some((field) => (entry.base[field] ?? null) !== (server.student[field] ?? null));
+    if (changedOnServer) {
+      // Dihapus di sini, tetapi diubah di server
+      return {
+        kind: "conflict",
+        conflict: {
+          studentId: entry.studentId,
+          local: null,
+          server: server.student,
+          serverVersion: server.version,
+          merged: null,
+          fields: [],
+        },
+      };
+    }
+    const removed = await backend.remove(entry.studentId, server.version);
+    if (!removed.success) return unreachable(removed);
+    if (!removed.data) return { kind: "retry" };
+    await setVersion(scopeKey, entry.studentId, null);
+    return { kind: "synced" };
+  }
+
+  if (!server) {
+    // Diubah di sini, tetapi dihapus di server
+    return {
+      kind: "conflict",
+      conflict: {
+        studentId: entry.studentId,
+        local: entry.student,
+        server: null,
+        serverVersion: null,
+        merged: null,
+        fields: [],
+      },
+    };
+  }
+
+  let target = entry.student;
+  if (server.version !== known) {
+    const { merged, conflicts } = mergeFields(entry.base, entry.student, server.student);
+    if (conflicts.length > 0) {
+      return {
+        kind: "conflict",
+        conflict: {
+          studentId: entry.studentId,
+          local: entry.student,
+          server: server.student,
+          serverVersion: server.version,
+          merged,
+          fields: conflicts,
+        },
+      };
+    }
+    target = merged;
+  }
+
+  const updated = await backend.update(target, server.version);
+  if (!updated.success) return unreachable(updated);
+  if (!updated.data) return { kind: "retry" };
+  await setVersion(scopeKey, entry.studentId, updated.data.version);
+  return target === entry.student ? { kind: "synced" } : { kind: "synced", merged: target };
+}
+
+/**
+ * Kirim seluruh antrean scope secara berurutan
+ * Berhenti saat koneksi terputus. Hanya entri yang terkirim yang dikeluarkan dari antrean:
+ * entri konflik ditandai dan dilewati sampai diselesaikan (resolveConflictInQueue),
+ * entri yang ditolak server dicoba lagi pada pengiriman berikutnya
+ * Time Complexity: O(q) permintaan ke server
+ */
+export async function flushQueue(
+  scope: DataScope,
+  scopeKey: string,
+  backend: SyncBackend = supabaseSyncBackend
+): Promise<FlushResult> {
+  const run = async (): Promise<FlushResult> => {
+    const result: FlushResult = { synced: 0, merged: [], conflicts: [], failed: [], remaining: 0, offline: false };
+    const queue = await readQueue(scopeKey);
+    result.remaining = queue.length;
+
+    for (const entry of queue) {
+      if (entry.conflict) continue;
+
+      let outcome: EntryOutcome;
+      try {
+        outcome = await replayEntry(entry, scope, scopeKey, backend);
+      } catch (error) {
+        outcome = { kind: "failed", message: error instanceof Error ? error.message : String(error) };
+      }
+
+      if (outcome.kind === "offline") {
+        result.offline = true;
+        break;
+      }
+      if (outcome.kind === "retry") continue;
+
+      if (outcome.kind === "synced") {
+        result.remaining = await removeFromQueue(scopeKey, entry.id);
+        result.synced++;
+        if (outcome.merged) result.merged.push(outcome.merged);
+      } else if (outcome.kind === "conflict") {
+        await updateEntryState(scopeKey, entry.id, { conflict: outcome.conflict });
+        result.conflicts.push(outcome.conflict);
+      } else {
+        await updateEntryState(scopeKey, entry.id, {
+          attempts: (entry.attempts ?? 0) + 1,
+          lastError: outcome.message,
+        });
+        result.failed.push(outcome.message);
+      }
+    }
+
+    result.remaining = (await readQueue(scopeKey)).length;
+    return result;
+  };
+
+  // Satu tab saja yang mengirim antrean scope ini pada satu waktu
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    return navigator.locks.request(`student_sync_flush:${scopeKey}`, run);
+  }
+  return run();
+}
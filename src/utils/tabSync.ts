@@ -0,0 +1,160 @@
+/**
+ * Tab Sync - Sinkronisasi data mahasiswa antar tab browser
+ *
+ * Setiap tab menyiarkan perubahan per baris ({ id, before, after }) setelah
+ * berhasil disimpan ke cache lokal. Tab penerima menerapkan perubahan jika
+ * baris lokalnya masih sama dengan "before"; jika baris lokal sudah diubah
+ * sendiri, perubahan tersebut menjadi konflik yang harus dipilih pengguna,
+ * bukan ditimpa diam-diam (last-writer-wins)
+ *
+ * Transport: BroadcastChannel, atau event "storage" jika tidak didukung
+ */
+
+import { IStudent } from "@/models/Student";
+import { diffDatasets, diffStudentFields } from "@/utils/studentDiff";
+
+export interface RemoteChange {
+  id: string;
+  // null berarti baris belum ada (before) atau sudah dihapus (after)
+  before: IStudent | null;
+  after: IStudent | null;
+}
+
+export interface SyncMessage {
+  tabId: string;
+  scopeKey: string;
+  changes: RemoteChange[];
+}
+
+export interface SyncConflict {
+  id: string;
+  local: IStudent | null;
+  remote: IStudent | null;
+}
+
+export interface ReconcileResult {
+  data: IStudent[];
+  applied: RemoteChange[];
+  conflicts: SyncConflict[];
+}
+
+export interface SyncChannel {
+  post: (changes: RemoteChange[]) => void;
+  close: () => void;
+}
+
+// Identitas tab ini; pesan dari tab sendiri diabaikan
+export const TAB_ID = crypto.randomUUID();
+
+const CHANNEL_PREFIX = "student_sync:";
+
+function sameStudent(a: IStudent | null, b: IStudent | null): boolean {
+  if (a === null || b === null) return a === b;
+  return diffStudentFields(a, b).length === 0;
+}
+
+/**
+ * Daftar perubahan per baris antara dua versi data
+ * Time Complexity: O(n + m)
+ */
+export function buildChanges(previous: IStudent[], next: IStudent[]): RemoteChange[] {
+  const diff = diffDatasets(previous, next);
+  return [
+    ...diff.added.map((s) => ({ id: s.id, before: null, after: s })),
+    ...diff.changed.map(({ before, after }) => ({ id: after.id, before, after })),
+    ...diff.removed.map((s) => ({ id: s.id, before: s, after: null })),
+  ];
+}
+
+/**
+ * Terapkan nilai "after" setiap perubahan: ganti, tambahkan di akhir, atau hapus
+ * Time Complexity: O(n + k)
+ */
+export function applyChanges(students: IStudent[], changes: RemoteChange[]): IStudent[] {
+  if (changes.length === 0) return students;
+  const byId = new Map(changes.map((c) => [c.id, c.after]));
+  const result: IStudent[] = [];
+
+  for (const student of students) {
+    if (!byId.has(student.id)) {
+      result.push(student);
+      continue;
+    }
+    const after = byId.get(student.id);
+    if (after) result.push(after);
+    byId.delete(student.id);
+  }
+  byId.forEach((after) => {
+    if (after) result.push(after);
+  });
+
+  return result;
+}
+
+/**
+ * Gabungkan perubahan dari tab lain ke data lokal
+ * Baris lokal yang sama dengan "before" diperbarui; yang sudah sama dengan "after"
+ * dilewati; selain itu berarti kedua tab mengubah baris yang sama (konflik)
+ * Time Complexity: O(n + k)
+ */
+export function reconcileRemoteChanges(local: IStudent[], changes: RemoteChange[]): ReconcileResult {
+  const localMap = new Map(local.map((s) => [s.id, s]));
+  const applied: RemoteChange[] = [];
+  const conflicts: SyncConflict[] = [];
+
+  for (const change of changes) {
+    const current = localMap.get(change.id) ?? null;
+    if (sameStudent(current, change.after)) continue;
+    if (sameStudent(current, change.before)) {
+      applied.push(change);
+    } else {
+      conflicts.push({ id: change.id, local: current, remote: change.after });
+    }
+  }
+
+  return { data: applyChanges(local, applied), applied, conflicts };
+}
+
+/**
+ * Buka kanal sinkronisasi untuk satu scope
+ */
+export function openSyncChannel(scopeKey: string, onMessage: (message: SyncMessage) => void): SyncChannel {
+  const name = CHANNEL_PREFIX + scopeKey;
+  const handle = (message: SyncMessage) => {
+    if (message && message.tabId !== TAB_ID && message.scopeKey === scopeKey) {
+      onMessage(message);
+    }
+  };
+
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => handle(event.data);
+    return {
+      post: (changes) => channel.postMessage({ tabId: TAB_ID, scopeKey, changes }),
+      close: () => channel.close(),
+    };
+  }
+
+  // Cadangan: event "storage" hanya diterima oleh tab lain
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== name || !event.newValue) return;
+    try {
+      handle(JSON.parse(event.newValue));
+    } catch (error) {
+      console.error("Error reading sync message:", error);
+    }
+  };
+  window.addEventListener("storage", onStorage);
+
+  return {
+    post: (changes) => {
+      try {
+        localStorage.setItem(name, JSON.stringify({ tabId: TAB_ID, scopeKey, changes, sentAt: Date.now() }));
+        localStorage.removeItem(name);
+      } catch (error) {
+        console.error("Error posting sync message:", error);
+      }
+    },
+    close: () => window.removeEventListener("storage", onStorage),
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Transcript Generator - Transkrip akademik (KHS per semester + IPK) per mahasiswa
+ * Menghasilkan dokumen HTML yang bisa dicetak atau disimpan sebagai PDF dari browser
+ */
+
+import { IStudent } from "@/models/Student";
+import { TranscriptSummary } from "@/utils/gradeCalculator";
+
+// Escape karakter HTML agar data mahasiswa tidak merusak dokumen
+function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDate(value: string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return value;
+  return date.toLocaleDateString("id-ID", { dateStyle: "long" });
+}
+
+const TRANSCRIPT_STYLES = `
+  body { font-family: "Times New Roman", serif; color: #111; margin: 32px; font-size: 12px; }
+  h1 { font-size: 18px; text-align: center; margin: 0 0 4px; letter-spacing: 1px; }
+  .subtitle { text-align: center; margin-bottom: 24px; color: #444; }
+  .identity { border-collapse: collapse; margin-bottom: 20px; }
+  .identity td { padding: 2px 12px 2px 0; }
+  h2 { font-size: 13px; margin: 18px 0 6px; }
+  table.grades { width: 100%; border-collapse: collapse; }
+  table.grades th, table.grades td { border: 1px solid #999; padding: 4px 6px; }
+  table.grades th { background: #eee; text-align: left; }
+  .center { text-align: center; }
+  .summary-row td { font-weight: bold; background: #fafafa; }
+  .total { margin-top: 24px; font-size: 13px; }
+  .total td { padding: 2px 12px 2px 0; }
+  .printed { margin-top: 32px; color: #666; font-size: 10px; }
+  @media print { body { margin: 16mm; } h2 { break-after: avoid; } table.grades { break-inside: avoid; } }
+`;
+
+/**
+ * Susun dokumen HTML transkrip
+ * Time Complexity: O(n) dimana n adalah jumlah mata kuliah yang diambil
+ */
+export function buildTranscriptHTML(student: IStudent, summary: TranscriptSummary): string {
+  const identity = [
+    ["NIM", student.nim],
+    ["Nama", student.nama],
+    ["Email", student.email],
+    ["Jurusan", student.jurusan],
+    ["Semester", student.semester.toString()],
+    ["Tanggal Masuk", formatDate(student.tanggalMasuk)],
+  ]
+    .map(([label, value]) => `<tr><td>${label}</td><td>: ${escapeHTML(value)}</td></tr>`)
+    .join("");
+
+  const semesters = summary.semesters
+    .map((sem) => {
+      const rows = sem.entries
+        .map(
+          ({ course, enrollment }, index) => `
+            <tr>
+              <td class="center">${index + 1}</td>
+              <td>${escapeHTML(course.kode)}</td>
+              <td>${escapeHTML(course.nama)}</td>
+              <td class="center">${course.sks}</td>
+              <td class="center">${enrollment.grade ?? "-"}</td>
+            </tr>`
+        )
+        .join("");
+
+      return `
+        <h2>Semester ${sem.semester}</h2>
+        <table class="grades">
+          <thead>
+            <tr><th class="center">No</th><th>Kode</th><th>Mata Kuliah</th><th class="center">SKS</th><th class="center">Nilai</th></tr>
+          </thead>
+          <tbody>
+            ${rows}
+            <tr class="summary-row">
+              <td colspan="3">Indeks Prestasi Semester (IPS)</td>
+              <td class="center">${sem.totalSKS}</td>
+              <td class="center">${sem.ips.toFixed(2)}</td>
+            </tr>
+          </tbody>
+        </table>`;
+    })
+    .join("");
+
+  const body = summary.semesters.length > 0
+    ? semesters
+    : "<p>Belum ada mata kuliah yang diambil.</p>";
+
+  return `<!DOCTYPE html>
+<html lang="id">
+<head>
+  <meta charset="utf-8" />
+  <title>Transkrip ${escapeHTML(student.nim)} - ${escapeHTML(student.nama)}</title>
+  <style>${TRANSCRIPT_STYLES}</style>
+</head>
+<body>
+  <h1>TRANSKRIP AKADEMIK</h1>
+  <div class="subtitle">Sistem Manajemen Data Mahasiswa</div>
+  <table class="identity">${identity}</table>
+  ${body}
+  <table class="total">
+    <tr><td>Total SKS</td><td>: ${summary.totalSKS}</td></tr>
+    <tr><td>Indeks Prestasi Kumulatif (IPK)</td><td>: ${summary.ipk.toFixed(2)}</td></tr>
+  </table>
+  <div class="printed">Dicetak pada ${new Date().toLocaleString("id-ID")}</div>
+</body>
+</html>`;
+}
+
+/**
+ * Buka transkrip di jendela baru dan tampilkan dialog cetak
+ * Pengguna dapat memilih "Save as PDF" dari dialog cetak browser
+ */
+export function printTranscript(student: IStudent, summary: TranscriptSummary): boolean {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) return false;
+
+  printWindow.document.open();
+  printWindow.document.write(buildTranscriptHTML(student, summary));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
+
+/**
+ * Unduh transkrip sebagai file HTML
+ */
+export function downloadTranscript(student: IStudent, summary: TranscriptSummary): void {
+  const blob = new Blob([buildTranscriptHTML(student, summary)], {
+    type: "text/html;charset=utf-8",
+  });
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `transkrip_${student.nim}.html`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
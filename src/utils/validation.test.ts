@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { validateNama } from "@/utils/validation";
+
+describe("validateNama", () => {
+  it.each(["Ádi", "Çağla Yılmaz", "Nguyễn Văn An", "Nguyễn".normalize("NFD"), "O'Brien", "R. A. Kartini", "Siti-Aisyah"])(
+    "menerima %s",
+    (nama) => {
+      expect(validateNama(nama).isValid).toBe(true);
+    }
+  );
+
+  it.each(["Budi123", "Budi_Santoso", "A", "<script>"])("menolak %s", (nama) => {
+    expect(validateNama(nama).isValid).toBe(false);
+  });
+});
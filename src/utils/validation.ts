@@ -13,8 +13,9 @@ export const REGEX_PATTERNS = {
   // NIM: Format bebas, minimal 1 karakter
   NIM: /^.{1,50}$/,
   
-  // Nama: minimal 2 karakter, hanya huruf dan spasi
-  NAMA: /^[a-zA-Z\s]{2,100}$/,
+  // Nama: 2-100 karakter, huruf dari bahasa apa pun (termasuk beraksen: Ádi, Çağla, Nguyễn),
+  // spasi, titik, apostrof, dan tanda hubung; \p{M} untuk aksen yang ditulis terpisah (NFD)
+  NAMA: /^[\p{L}\p{M}\s.'-]{2,100}$/u,
   
   // Email: format email standar
   EMAIL: /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/,
@@ -27,8 +28,15 @@ export const REGEX_PATTERNS = {
   
   // Jurusan: minimal 2 karakter
   JURUSAN: /^[a-zA-Z\s]{2,50}$/,
+  
+  // Kode mata kuliah: huruf/angka, 2-20 karakter (contoh: IF2110)
+  KODE_MK: /^[A-Za-z0-9-]{2,20}$/,
 };
 
+// Batas semester yang diizinkan
+export const MIN_SEMESTER = 1;
+export const MAX_SEMESTER = 14;
+
 /**
  * Validasi NIM
  * Time Complexity: O(n) dimana n adalah panjang string
@@ -73,7 +81,7 @@ export function validateNama(nama: string): ValidationResult {
       isValid,
       message: isValid 
         ? "Nama valid" 
-        : "Nama hanya boleh mengandung huruf dan spasi",
+        : "Nama hanya boleh mengandung huruf, spasi, titik, apostrof, dan tanda hubung",
     };
   } catch (error) {
     return { isValid: false, message: "Terjadi kesalahan saat validasi nama" };
@@ -133,8 +141,8 @@ export function validateSemester(semester: number): ValidationResult {
       return { isValid: false, message: "Semester harus berupa bilangan bulat" };
     }
     
-    if (semester < 1 || semester > 14) {
-      return { isValid: false, message: "Semester harus antara 1-14" };
+    if (semester < MIN_SEMESTER || semester > MAX_SEMESTER) {
+      return { isValid: false, message: `Semester harus antara ${MIN_SEMESTER}-${MAX_SEMESTER}` };
     }
     
     return { isValid: true, message: "Semester valid" };
@@ -170,6 +178,49 @@ export function validateJurusan(jurusan: string): ValidationResult {
   }
 }
 
+/**
+ * Validasi Kode Mata Kuliah
+ * Time Complexity: O(n)
+ */
+export function validateKodeMK(kode: string): ValidationResult {
+  try {
+    if (!kode || kode.trim() === "") {
+      return { isValid: false, message: "Kode mata kuliah tidak boleh kosong" };
+    }
+    
+    const isValid = REGEX_PATTERNS.KODE_MK.test(kode);
+    
+    return {
+      isValid,
+      message: isValid 
+        ? "Kode mata kuliah valid" 
+        : "Kode hanya boleh huruf, angka, dan tanda hubung (2-20 karakter)",
+    };
+  } catch (error) {
+    return { isValid: false, message: "Terjadi kesalahan saat validasi kode mata kuliah" };
+  }
+}
+
+/**
+ * Validasi SKS
+ * Time Complexity: O(1)
+ */
+export function validateSKS(sks: number): ValidationResult {
+  try {
+    if (!Number.isInteger(sks)) {
+      return { isValid: false, message: "SKS harus berupa bilangan bulat" };
+    }
+    
+    if (sks < 1 || sks > 6) {
+      return { isValid: false, message: "SKS harus antara 1-6" };
+    }
+    
+    return { isValid: true, message: "SKS valid" };
+  } catch (error) {
+    return { isValid: false, message: "Terjadi kesalahan saat validasi SKS" };
+  }
+}
+
 /**
  * Validasi semua field mahasiswa
  * Time Complexity: O(n) untuk setiap field
@@ -0,0 +1,56 @@
+-- Tabel data mahasiswa (mengikuti IStudent di src/models/Student.ts)
+create table public.students (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  nim text not null,
+  nama text not null,
+  email text not null,
+  jurusan text not null,
+  semester integer not null check (semester between 1 and 14),
+  ipk numeric(3, 2) not null check (ipk between 0 and 4),
+  tanggal_masuk date not null default current_date,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index students_user_nim_key on public.students (user_id, lower(nim));
+create index students_user_id_idx on public.students (user_id);
+
+-- updated_at otomatis diperbarui setiap kali baris diubah
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger students_set_updated_at
+before update on public.students
+for each row execute function public.set_updated_at();
+
+-- Row Level Security: setiap pengguna hanya mengakses datanya sendiri
+alter table public.students enable row level security;
+
+create policy "Users can view their own students"
+on public.students for select
+to authenticated
+using (auth.uid() = user_id);
+
+create policy "Users can insert their own students"
+on public.students for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+create policy "Users can update their own students"
+on public.students for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+create policy "Users can delete their own students"
+on public.students for delete
+to authenticated
+using (auth.uid() = user_id);
@@ -0,0 +1,105 @@
+-- Ruang kerja bersama per program studi ("prodi")
+-- Keanggotaan dikelola oleh admin langsung di database
+create table public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  nama text not null,
+  created_by uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create table public.workspace_members (
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index workspace_members_user_id_idx on public.workspace_members (user_id);
+
+-- Security definer agar policy tidak rekursif terhadap workspace_members
+create or replace function public.is_workspace_member(_workspace_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.workspace_members
+    where workspace_id = _workspace_id
+      and user_id = auth.uid()
+  );
+$$;
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+
+create policy "Members can view their workspaces"
+on public.workspaces for select
+to authenticated
+using (public.is_workspace_member(id));
+
+create policy "Members can view workspace membership"
+on public.workspace_members for select
+to authenticated
+using (public.is_workspace_member(workspace_id));
+
+-- Setiap data mahasiswa dimiliki satu akun, atau satu workspace prodi
+alter table public.students
+  add column workspace_id uuid references public.workspaces (id) on delete cascade;
+
+create index students_workspace_id_idx on public.students (workspace_id);
+
+drop index public.students_user_nim_key;
+create unique index students_scope_nim_key
+  on public.students (coalesce(workspace_id, user_id), lower(nim));
+
+drop policy "Users can view their own students" on public.students;
+drop policy "Users can insert their own students" on public.students;
+drop policy "Users can update their own students" on public.students;
+drop policy "Users can delete their own students" on public.students;
+
+create policy "Owners and workspace members can view students"
+on public.students for select
+to authenticated
+using (
+  case
+    when workspace_id is null then auth.uid() = user_id
+    else public.is_workspace_member(workspace_id)
+  end
+);
+
+create policy "Owners and workspace members can insert students"
+on public.students for insert
+to authenticated
+with check (
+  auth.uid() = user_id
+  and (workspace_id is null or public.is_workspace_member(workspace_id))
+);
+
+create policy "Owners and workspace members can update students"
+on public.students for update
+to authenticated
+using (
+  case
+    when workspace_id is null then auth.uid() = user_id
+    else public.is_workspace_member(workspace_id)
+  end
+)
+with check (
+  case
+    when workspace_id is null then auth.uid() = user_id
+    else public.is_workspace_member(workspace_id)
+  end
+);
+
+create policy "Owners and workspace members can delete students"
+on public.students for delete
+to authenticated
+using (
+  case
+    when workspace_id is null then auth.uid() = user_id
+    else public.is_workspace_member(workspace_id)
+  end
+);
@@ -0,0 +1,124 @@
+-- Peran pengguna: admin, dosen wali (academic advisor), dan viewer (read-only)
+create type public.app_role as enum ('admin', 'dosen_wali', 'viewer');
+
+create table public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  full_name text,
+  role public.app_role not null default 'viewer',
+  created_at timestamptz not null default now()
+);
+
+-- Security definer agar policy bisa membaca peran tanpa rekursi RLS
+create or replace function public.has_role(_role public.app_role)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profiles
+    where id = auth.uid()
+      and role = _role
+  );
+$$;
+
+alter table public.profiles enable row level security;
+
+create policy "Users can view their own profile"
+on public.profiles for select
+to authenticated
+using (auth.uid() = id);
+
+create policy "Admins can view all profiles"
+on public.profiles for select
+to authenticated
+using (public.has_role('admin'));
+
+-- Hanya admin yang boleh mengubah peran
+create policy "Admins can update profiles"
+on public.profiles for update
+to authenticated
+using (public.has_role('admin'))
+with check (public.has_role('admin'));
+
+-- Profil dibuat otomatis saat registrasi (full_name dari form Auth)
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, full_name)
+  values (new.id, new.raw_user_meta_data ->> 'full_name');
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+after insert on auth.users
+for each row execute function public.handle_new_user();
+
+-- Pengguna lama sebelumnya punya akses penuh, jadikan admin
+insert into public.profiles (id, full_name, role)
+select id, raw_user_meta_data ->> 'full_name', 'admin'
+from auth.users
+on conflict (id) do nothing;
+
+-- Dosen wali untuk setiap mahasiswa
+alter table public.students
+  add column dosen_wali_id uuid references auth.users (id) on delete set null;
+
+create index students_dosen_wali_id_idx on public.students (dosen_wali_id);
+
+-- Perbarui policy: viewer hanya baca, dosen wali hanya mengubah anak walinya,
+-- admin boleh semua (tetap dalam batas scope pribadi/workspace)
+drop policy "Owners and workspace members can insert students" on public.students;
+drop policy "Owners and workspace members can update students" on public.students;
+drop policy "Owners and workspace members can delete students" on public.students;
+
+create policy "Admins can insert students"
+on public.students for insert
+to authenticated
+with check (
+  public.has_role('admin')
+  and auth.uid() = user_id
+  and (workspace_id is null or public.is_workspace_member(workspace_id))
+);
+
+create policy "Admins and advisors can update students"
+on public.students for update
+to authenticated
+using (
+  case
+    when workspace_id is null then auth.uid() = user_id
+    else public.is_workspace_member(workspace_id)
+  end
+  and (
+    public.has_role('admin')
+    or (public.has_role('dosen_wali') and dosen_wali_id = auth.uid())
+  )
+)
+with check (
+  case
+    when workspace_id is null then auth.uid() = user_id
+    else public.is_workspace_member(workspace_id)
+  end
+  and (
+    public.has_role('admin')
+    or (public.has_role('dosen_wali') and dosen_wali_id = auth.uid())
+  )
+);
+
+create policy "Admins can delete students"
+on public.students for delete
+to authenticated
+using (
+  case
+    when workspace_id is null then auth.uid() = user_id
+    else public.is_workspace_member(workspace_id)
+  end
+  and public.has_role('admin')
+);
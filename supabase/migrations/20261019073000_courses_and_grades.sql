@@ -0,0 +1,139 @@
+-- Katalog mata kuliah dan nilai per mahasiswa
+-- IPK mahasiswa dihitung dari nilai (bobot huruf x SKS), bukan diketik manual
+create type public.letter_grade as enum ('A', 'AB', 'B', 'BC', 'C', 'D', 'E');
+
+create table public.courses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  workspace_id uuid references public.workspaces (id) on delete cascade,
+  kode text not null,
+  nama text not null,
+  sks integer not null check (sks between 1 and 6),
+  semester integer not null check (semester between 1 and 14),
+  created_at timestamptz not null default now()
+);
+
+create unique index courses_scope_kode_key
+  on public.courses (coalesce(workspace_id, user_id), lower(kode));
+
+create table public.enrollments (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references public.students (id) on delete cascade,
+  course_id uuid not null references public.courses (id) on delete cascade,
+  semester integer not null check (semester between 1 and 14),
+  grade public.letter_grade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (student_id, course_id)
+);
+
+create index enrollments_student_id_idx on public.enrollments (student_id);
+
+create trigger enrollments_set_updated_at
+before update on public.enrollments
+for each row execute function public.set_updated_at();
+
+-- Bobot nilai huruf
+create or replace function public.grade_points(_grade public.letter_grade)
+returns numeric
+language sql
+immutable
+as $$
+  select case _grade
+    when 'A' then 4.0
+    when 'AB' then 3.5
+    when 'B' then 3.0
+    when 'BC' then 2.5
+    when 'C' then 2.0
+    when 'D' then 1.0
+    when 'E' then 0.0
+  end;
+$$;
+
+-- Hitung ulang IPK mahasiswa setiap kali nilainya berubah
+create or replace function public.recalculate_student_ipk()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _student_id uuid := coalesce(new.student_id, old.student_id);
+  _ipk numeric;
+begin
+  select round(sum(public.grade_points(e.grade) * c.sks) / nullif(sum(c.sks), 0), 2)
+  into _ipk
+  from public.enrollments e
+  join public.courses c on c.id = e.course_id
+  where e.student_id = _student_id
+    and e.grade is not null;
+
+  update public.students
+  set ipk = coalesce(_ipk, 0)
+  where id = _student_id;
+
+  return null;
+end;
+$$;
+
+create trigger enrollments_recalculate_ipk
+after insert or update or delete on public.enrollments
+for each row execute function public.recalculate_student_ipk();
+
+-- Boleh mengubah data akademik mahasiswa: admin, atau dosen wali mahasiswa tersebut
+-- (security invoker, sehingga batas scope dari RLS students tetap berlaku)
+create or replace function public.can_edit_student(_student_id uuid)
+returns boolean
+language sql
+stable
+as $$
+  select exists (
+    select 1
+    from public.students s
+    where s.id = _student_id
+      and (
+        public.has_role('admin')
+        or (public.has_role('dosen_wali') and s.dosen_wali_id = auth.uid())
+      )
+  );
+$$;
+
+alter table public.courses enable row level security;
+alter table public.enrollments enable row level security;
+
+create policy "Owners and workspace members can view courses"
+on public.courses for select
+to authenticated
+using (
+  case
+    when workspace_id is null then auth.uid() = user_id
+    else public.is_workspace_member(workspace_id)
+  end
+);
+
+create policy "Admins can manage courses"
+on public.courses for all
+to authenticated
+using (
+  public.has_role('admin')
+  and case
+    when workspace_id is null then auth.uid() = user_id
+    else public.is_workspace_member(workspace_id)
+  end
+)
+with check (
+  public.has_role('admin')
+  and auth.uid() = user_id
+  and (workspace_id is null or public.is_workspace_member(workspace_id))
+);
+
+create policy "Users can view enrollments of visible students"
+on public.enrollments for select
+to authenticated
+using (exists (select 1 from public.students s where s.id = student_id));
+
+create policy "Admins and advisors can manage enrollments"
+on public.enrollments for all
+to authenticated
+using (public.can_edit_student(student_id))
+with check (public.can_edit_student(student_id));
@@ -0,0 +1,45 @@
+-- Jejak audit per field: siapa mengubah apa dan kapan
+-- Append-only: tidak ada policy update/delete, sehingga baris tidak bisa diubah atau dihapus
+create type public.audit_action as enum ('create', 'update', 'delete', 'import');
+
+create table public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  actor_email text,
+  workspace_id uuid references public.workspaces (id) on delete cascade,
+  action public.audit_action not null,
+  -- Tanpa foreign key agar riwayat mahasiswa yang sudah dihapus tetap ada
+  student_id uuid not null,
+  student_nim text not null,
+  student_nama text not null,
+  field text not null,
+  old_value jsonb,
+  new_value jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index audit_log_workspace_created_idx on public.audit_log (workspace_id, created_at desc);
+create index audit_log_actor_created_idx on public.audit_log (actor_id, created_at desc);
+create index audit_log_student_id_idx on public.audit_log (student_id);
+
+alter table public.audit_log enable row level security;
+
+create policy "Owners and workspace members can view audit log"
+on public.audit_log for select
+to authenticated
+using (
+  case
+    when workspace_id is null then auth.uid() = actor_id
+    else public.is_workspace_member(workspace_id)
+  end
+);
+
+create policy "Users can append their own audit entries"
+on public.audit_log for insert
+to authenticated
+with check (
+  auth.uid() = actor_id
+  and (workspace_id is null or public.is_workspace_member(workspace_id))
+);
+
+revoke update, delete, truncate on public.audit_log from anon, authenticated;
@@ -0,0 +1,5 @@
+-- Realtime: perubahan tabel students dikirim ke klien yang berlangganan
+-- Replica identity full agar event delete membawa seluruh kolom baris lama
+alter table public.students replica identity full;
+
+alter publication supabase_realtime add table public.students;
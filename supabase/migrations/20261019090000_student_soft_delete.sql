@@ -0,0 +1,45 @@
+-- Soft delete: data mahasiswa yang dihapus masuk Recycle Bin (deleted_at terisi)
+-- dan baru dihapus permanen saat di-purge atau melewati masa retensi
+alter table public.students
+  add column deleted_at timestamptz,
+  add column deleted_by uuid references auth.users (id) on delete set null,
+  add column deleted_by_email text;
+
+create index students_deleted_at_idx on public.students (deleted_at) where deleted_at is not null;
+
+-- NIM unik hanya di antara data aktif, agar NIM dari Recycle Bin bisa dipakai lagi
+drop index public.students_scope_nim_key;
+create unique index students_scope_nim_key
+  on public.students (coalesce(workspace_id, user_id), lower(nim))
+  where deleted_at is null;
+
+-- Hapus dan pulihkan lewat update hanya untuk admin (sama dengan policy delete);
+-- pelaku dicatat oleh server, bukan dikirim klien
+create or replace function public.track_student_soft_delete()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.deleted_at is distinct from old.deleted_at then
+    if not public.has_role('admin') then
+      raise exception 'Hanya admin yang boleh menghapus atau memulihkan data mahasiswa'
+        using errcode = '42501';
+    end if;
+
+    if new.deleted_at is null then
+      new.deleted_by = null;
+      new.deleted_by_email = null;
+    else
+      new.deleted_by = auth.uid();
+      new.deleted_by_email = auth.jwt() ->> 'email';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger students_track_soft_delete
+before update on public.students
+for each row execute function public.track_student_soft_delete();
@@ -0,0 +1,99 @@
+-- Jejak audit ditulis oleh server dari trigger pada students, bukan oleh klien:
+-- entri hanya ada untuk perubahan yang benar-benar tersimpan, dan pelaku diambil
+-- dari auth.uid() serta email di JWT sehingga tidak bisa dipalsukan.
+-- Server tidak membedakan import dari tambah/ubah biasa; action 'import' tetap
+-- ada di enum untuk entri lama
+drop policy "Users can append their own audit entries" on public.audit_log;
+revoke insert on public.audit_log from anon, authenticated;
+
+-- Nilai field yang diaudit, dengan nama field yang sama seperti di aplikasi (StudentField)
+create or replace function public.student_audit_fields(_student public.students)
+returns jsonb
+language sql
+immutable
+as $$
+  select jsonb_build_object(
+    'nim', _student.nim,
+    'nama', _student.nama,
+    'email', _student.email,
+    'jurusan', _student.jurusan,
+    'semester', _student.semester,
+    'ipk', _student.ipk,
+    'tanggalMasuk', _student.tanggal_masuk,
+    'dosenWaliId', _student.dosen_wali_id
+  );
+$$;
+
+-- Soft delete dicatat sebagai delete dan pemulihan dari Recycle Bin sebagai create;
+-- purge baris yang sudah di Recycle Bin tidak dicatat lagi
+create or replace function public.write_student_audit()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _action public.audit_action;
+  _student public.students;
+  _before jsonb;
+  _after jsonb;
+begin
+  -- Perubahan tanpa pengguna (mis. job pemeliharaan dengan service role) tidak punya pelaku
+  if auth.uid() is null then
+    return null;
+  end if;
+
+  if tg_op = 'INSERT' then
+    _action := 'create';
+    _student := new;
+    _after := public.student_audit_fields(new);
+  elsif tg_op = 'DELETE' then
+    if old.deleted_at is not null then
+      return null;
+    end if;
+    _action := 'delete';
+    _student := old;
+    _before := public.student_audit_fields(old);
+  elsif old.deleted_at is null and new.deleted_at is not null then
+    _action := 'delete';
+    _student := old;
+    _before := public.student_audit_fields(old);
+  elsif old.deleted_at is not null and new.deleted_at is null then
+    _action := 'create';
+    _student := new;
+    _after := public.student_audit_fields(new);
+  elsif new.deleted_at is null then
+    _action := 'update';
+    _student := new;
+    _before := public.student_audit_fields(old);
+    _after := public.student_audit_fields(new);
+  else
+    return null;
+  end if;
+
+  -- Satu entri per field yang berubah; field kosong pada data yang ditambah/dihapus dilewati
+  insert into public.audit_log (
+    actor_id, actor_email, workspace_id, action,
+    student_id, student_nim, student_nama, field, old_value, new_value
+  )
+  select
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    _student.workspace_id,
+    _action,
+    _student.id,
+    _student.nim,
+    _student.nama,
+    field,
+    nullif(_before -> field, 'null'::jsonb),
+    nullif(_after -> field, 'null'::jsonb)
+  from jsonb_object_keys(coalesce(_after, _before)) as field
+  where coalesce(_before -> field, 'null'::jsonb) is distinct from coalesce(_after -> field, 'null'::jsonb);
+
+  return null;
+end;
+$$;
+
+create trigger students_write_audit
+after insert or update or delete on public.students
+for each row execute function public.write_student_audit();
@@ -0,0 +1,52 @@
+-- IPK hanya dihitung dari nilai: nilai yang dikirim klien diabaikan, dan IPK lama
+-- yang diketik manual dihitung ulang sehingga tampilan dan database selalu sama
+create or replace function public.computed_ipk(_student_id uuid)
+returns numeric
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(round(sum(public.grade_points(e.grade) * c.sks) / nullif(sum(c.sks), 0), 2), 0)
+  from public.enrollments e
+  join public.courses c on c.id = e.course_id
+  where e.student_id = _student_id
+    and e.grade is not null;
+$$;
+
+create or replace function public.recalculate_student_ipk()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  _student_id uuid := coalesce(new.student_id, old.student_id);
+begin
+  update public.students
+  set ipk = public.computed_ipk(_student_id)
+  where id = _student_id;
+
+  return null;
+end;
+$$;
+
+create or replace function public.enforce_computed_ipk()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.ipk = public.computed_ipk(new.id);
+  return new;
+end;
+$$;
+
+create trigger students_enforce_computed_ipk
+before insert or update on public.students
+for each row execute function public.enforce_computed_ipk();
+
+alter table public.students alter column ipk set default 0;
+
+update public.students
+set ipk = public.computed_ipk(id)
+where ipk is distinct from public.computed_ipk(id);